@@ -4,13 +4,20 @@ import { Memory } from "@mastra/memory";
 import {
   listEmailsTool,
   sendEmailTool,
-  readEmailTool
+  readEmailTool,
+  replyToEmailTool,
+  createDraftTool,
+  getThreadTool
 } from '../tools/gmailTools';
 import {
+  listCalendarsTool,
   listCalendarEventsTool,
   createCalendarEventTool,
   updateCalendarEventTool,
-  getCalendarAvailabilityTool
+  getCalendarAvailabilityTool,
+  findMeetingTimesTool,
+  listPendingInvitationsTool,
+  respondToInvitationTool
 } from '../tools/googleCalendarTools';
 
 const combinedMemory = new Memory({
@@ -125,11 +132,12 @@ export const emailCalendarAgent = new Agent({
     - Help manage meeting-related email correspondence
     
     EMAIL-CALENDAR WORKFLOW:
-    1. When emails mention meetings or appointments, help extract relevant details (use readEmailTool if needed)
-    2. Check calendar availability for suitable time slots (use getCalendarAvailabilityTool, ensuring full ISO 8601 format for dates)
+    1. When emails mention meetings or appointments, help extract relevant details (use readEmailTool, or getThreadTool when the scheduling happened over several replies)
+    2. Check calendar availability for suitable time slots (use getCalendarAvailabilityTool, or findMeetingTimesTool with the attendees' email addresses when other people need to attend, ensuring full ISO 8601 format for dates)
     3. Create or update calendar events with complete details (use createCalendarEventTool or updateCalendarEventTool, ensuring full ISO 8601 format for dates)
-    4. Send confirmation or follow-up emails regarding scheduled events (use sendEmailTool)
+    4. Send confirmation or follow-up emails regarding scheduled events (use replyToEmailTool when answering the email that requested the meeting, so it stays in the same thread; otherwise sendEmailTool). If the user wants to review the email first, save it with createDraftTool instead
     5. Help manage updates, cancellations, and rescheduling
+    6. Answer calendar invitations with respondToInvitationTool (accept, decline or tentative, with an optional comment); use listPendingInvitationsTool to find the ones still waiting for an answer. To suggest another time, pass proposedStart so the organizer gets an email
     
     ADVANCED FEATURES:
     - Recognize meeting requests even when informally phrased
@@ -139,8 +147,12 @@ export const emailCalendarAgent = new Agent({
     - Draft professional emails about scheduling
     
     GOOD PRACTICES:
-    - When calling ANY tool, you MUST include the 'userId' parameter in the input object.
-    - When passing dates/times to calendar tools, ALWAYS use the full ISO 8601 format including timezone offset (e.g., '2023-10-27T10:00:00Z').
+    - Tools always act on the connected account of the user you are talking to; you never need to pass a user ID.
+    - The user may have several linked Google accounts (listed in the system context). Pass the 'account' name to each tool when the user refers to one, e.g. check the 'work' calendar and the 'personal' inbox in the same request. Omit it to use the default account.
+    - Calendar tools use the primary calendar unless you pass 'calendar' with a calendar name or ID; use listCalendarsTool when the user mentions another calendar, and pass several names in 'calendars' of getCalendarAvailabilityTool to check them together.
+    - When passing dates/times to calendar tools, ALWAYS use the full ISO 8601 format including timezone offset (e.g., '2023-10-27T10:00:00Z'), using the user's time zone from the system context.
+    - When showing events or free slots, use their 'local' field, which is already in the user's time zone.
+    - When findMeetingTimesTool could not check some attendees' calendars, say so when proposing times, and ask those attendees to confirm in the email.
     - Verify all extracted meeting information before scheduling
     - Always check calendar availability before confirming new events
     - Include all necessary details in calendar events (title, time, participants, location)
@@ -169,12 +181,19 @@ export const emailCalendarAgent = new Agent({
     listEmailsTool,
     sendEmailTool,
     readEmailTool,
+    replyToEmailTool,
+    createDraftTool,
+    getThreadTool,
     
     // Calendar tools
+    listCalendarsTool,
     listCalendarEventsTool,
     createCalendarEventTool,
     updateCalendarEventTool,
-    getCalendarAvailabilityTool
+    getCalendarAvailabilityTool,
+    findMeetingTimesTool,
+    listPendingInvitationsTool,
+    respondToInvitationTool
   },
   memory: combinedMemory
 });
\ No newline at end of file
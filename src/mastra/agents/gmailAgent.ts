@@ -5,7 +5,29 @@ import {
   sendEmailTool,
   deleteEmailTool,
   readEmailTool,
-  labelEmailTool
+  labelEmailTool,
+  replyToEmailTool,
+  forwardEmailTool,
+  createDraftTool,
+  listDraftsTool,
+  readDraftTool,
+  updateDraftTool,
+  sendDraftTool,
+  deleteDraftTool,
+  getAttachmentTool,
+  listLabelsTool,
+  createLabelTool,
+  renameLabelTool,
+  deleteLabelTool,
+  getThreadTool,
+  bulkModifyEmailsTool,
+  setEmailStateTool,
+  scheduleEmailTool,
+  listFiltersTool,
+  createFilterTool,
+  deleteFilterTool,
+  findNewslettersTool,
+  unsubscribeTool
 } from '../tools/gmailTools';
 import { gmailMemory } from '../memory';
 
@@ -49,9 +71,17 @@ export const gmailAgent = new Agent({
     EMAIL MANAGEMENT CAPABILITIES:
     - List recent emails from the user's Gmail inbox using search queries
     - Read the full content of specific emails including bodies and attachments
-    - Send emails on behalf of the user with proper formatting
+    - Read whole conversations (threads) at once to summarize where a discussion stands
+    - Send email attachments to the chat as files, and read text and PDF attachments to summarize them
+    - Send emails on behalf of the user with proper formatting, including cc, bcc and files the user uploaded to the chat as attachments
+    - Reply (or reply-all) to emails inside their existing thread, and forward emails with their attachments
+    - Prepare drafts (including replies) and leave them in Gmail for review, then edit, send or delete them
+    - Mark emails read or unread, star them, archive them or move them back to the inbox, and mark them important or as spam
     - Delete or move emails to trash
-    - Apply labels to emails for organization
+    - Clean up many emails at once by search query (archive, mark read/unread, trash, add or remove a label)
+    - Apply and remove labels on emails, and list, create, rename or delete labels for organization
+    - Set up Gmail filters that sort new mail automatically, and list or delete existing filters
+    - Find newsletters and other bulk mail, see how often each sender mails, and unsubscribe, archive or filter them
     
     COMMUNICATION STYLE:
     - Be professional and efficient in your responses
@@ -66,12 +96,24 @@ export const gmailAgent = new Agent({
     - Offer to draft responses to common email types
     
     GOOD PRACTICES:
-    - When calling any tool, you MUST include the 'userId' parameter in the input object.
-    - When a user asks to see their emails, use listEmailsTool with relevant search criteria and the userId.
-    - To read a specific email's content, use readEmailTool with the email ID and the userId.
-    - Always confirm details before sending an email, then use sendEmailTool with all details and the userId.
-    - Obtain explicit confirmation before deleting emails, then use deleteEmailTool with email ID and userId.
-    - Use labelEmailTool with email ID, labels, and userId to help organize emails.
+    - Tools always act on the connected account of the user you are talking to; you never need to pass a user ID.
+    - If the user has several linked Google accounts (listed in the system context), pass the 'account' name when they refer to a specific inbox, e.g. 'my work email'. Omit it to use the default account.
+    - When a user asks to see their emails, use listEmailsTool with relevant search criteria. Its unread, starred, important, hasAttachments and labels fields answer triage questions without reading each email. When the user wants to see more, call it again with the same query and the returned nextPageToken.
+    - To read a specific email's content, use readEmailTool with the email ID. It returns the new text only, shortened when long; if the result says truncated, or the user needs the quoted history, call it again with fullText.
+    - When the user asks about a conversation (e.g. "what's the latest on the contract thread"), use getThreadTool with the threadId from listEmailsTool or readEmailTool instead of reading messages one by one.
+    - When the user wants an attachment, use getAttachmentTool with the email ID and the attachment ID (or filename) from readEmailTool; it sends the file to the chat. To summarize a text or PDF attachment, set extractText (and sendToChat to false unless they also want the file).
+    - Always confirm details before sending an email, then use sendEmailTool with all details.
+    - When the user wants an email sent later ("send this tomorrow at 9"), confirm the details and the exact time, then use scheduleEmailTool with sendAt in ISO 8601 format including the timezone offset. Tell them they can review or cancel it with /scheduled. Record it under Scheduled Emails in working memory.
+    - When the user sends a file to the chat it is listed in the system context with an upload ID. To attach it, pass its ID in attachmentIds of sendEmailTool.
+    - When the user wants to answer an email, use replyToEmailTool with the original email ID (set replyAll when they want everyone included) instead of sendEmailTool, so the reply stays in the same conversation. Confirm the reply text first.
+    - To pass an email on to someone, use forwardEmailTool with the original email ID and recipients; it quotes the original and keeps its attachments.
+    - For sensitive mail, or whenever the user wants to review before sending, save the message with createDraftTool (pass replyToEmailId to draft a reply in the original thread) instead of sending it. Use listDraftsTool and readDraftTool to find drafts, updateDraftTool to change them, sendDraftTool only after the user explicitly approves, and deleteDraftTool to discard them.
+    - For everyday triage of specific emails (read/unread, star, archive, back to inbox, important, spam), use setEmailStateTool with the email IDs and report any that failed.
+    - Obtain explicit confirmation before deleting emails, then use deleteEmailTool with the email ID. Deleted emails go to the trash, where the user can restore them for 30 days.
+    - To act on many emails at once, use bulkModifyEmailsTool. It returns a dry run and asks the user to confirm with a button in the chat; show them the match count and sample, and tell them to press Confirm if it looks right. Nothing changes until they press it, so never claim it is done.
+    - Use labelEmailTool with the email ID and label names to organize emails; set createMissing only when the user wants a new label. Use listLabelsTool to see which labels exist, createLabelTool, renameLabelTool and deleteLabelTool to manage them. Confirm before deleting a label.
+    - When the user wants mail handled automatically from now on ("always archive GitHub notifications and label them dev"), use createFilterTool. Show the user the preview (criteria, actions and how many existing emails match); the filter is only created when they press Confirm on the button it sends to the chat. Offer bulkModifyEmailsTool for the existing matches. Use listFiltersTool to show filters and deleteFilterTool (after confirmation) to remove one.
+    - When the user wants to cut down on newsletters or bulk mail, use findNewslettersTool and show the senders with how many emails they sent per week. For each one the user picks, offer to unsubscribe (unsubscribeTool with its latestEmailId), archive everything from it (bulkModifyEmailsTool with its searchQuery) or filter future mail (createFilterTool with its searchQuery as the query). Each of these previews first and asks the user to confirm with a button in the chat; the action only happens when they press it. If unsubscribe is only a link, give the user the link. Record the regular newsletters, their frequency and what the user decided under Regular Newsletters in working memory.
     
     WORKING MEMORY:
     You have access to a working memory that contains the user's email preferences and patterns.
@@ -96,7 +138,29 @@ export const gmailAgent = new Agent({
     sendEmailTool,
     deleteEmailTool,
     readEmailTool,
-    labelEmailTool
+    labelEmailTool,
+    replyToEmailTool,
+    forwardEmailTool,
+    createDraftTool,
+    listDraftsTool,
+    readDraftTool,
+    updateDraftTool,
+    sendDraftTool,
+    deleteDraftTool,
+    getAttachmentTool,
+    listLabelsTool,
+    createLabelTool,
+    renameLabelTool,
+    deleteLabelTool,
+    getThreadTool,
+    bulkModifyEmailsTool,
+    setEmailStateTool,
+    scheduleEmailTool,
+    listFiltersTool,
+    createFilterTool,
+    deleteFilterTool,
+    findNewslettersTool,
+    unsubscribeTool
   },
   memory: gmailMemory
 });
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { setConfirmationPrompter, requestConfirmation, takeConfirmation } from './chatConfirmation';
+
+describe('chat confirmations', () => {
+  let shown: { userId: string; confirmationId: string; prompt: string }[];
+
+  beforeEach(() => {
+    shown = [];
+    setConfirmationPrompter(async (userId, confirmationId, prompt) => {
+      shown.push({ userId, confirmationId, prompt });
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('shows the prompt to the user and hands the action out once', async () => {
+    await requestConfirmation('1001', { prompt: 'Archive 12 emails?', run: async () => 'Archived 12 emails' });
+    assert.equal(shown.length, 1);
+    assert.equal(shown[0].userId, '1001');
+    assert.equal(shown[0].prompt, 'Archive 12 emails?');
+
+    const confirmation = takeConfirmation('1001', shown[0].confirmationId);
+    assert.equal(await confirmation?.run(), 'Archived 12 emails');
+    assert.equal(takeConfirmation('1001', shown[0].confirmationId), null);
+  });
+
+  it("never hands out another user's confirmation", async () => {
+    await requestConfirmation('1001', { prompt: 'Delete filter?', run: async () => 'done' });
+    const { confirmationId } = shown[0];
+
+    assert.equal(takeConfirmation('1002', confirmationId), null);
+    // The owner can still confirm it
+    assert.ok(takeConfirmation('1001', confirmationId));
+    assert.equal(takeConfirmation('1001', 'made-up-id'), null);
+  });
+
+  it('expires after ten minutes', async () => {
+    await requestConfirmation('1001', { prompt: 'Unsubscribe?', run: async () => 'done' });
+    const { confirmationId } = shown[0];
+    const now = Date.now();
+    mock.method(Date, 'now', () => now + 10 * 60 * 1000 + 1);
+
+    assert.equal(takeConfirmation('1001', confirmationId), null);
+  });
+
+  it('forgets the action when the prompt cannot be shown', async () => {
+    let failedId = '';
+    setConfirmationPrompter(async (_userId, confirmationId) => {
+      failedId = confirmationId;
+      throw new Error('chat unreachable');
+    });
+    await assert.rejects(requestConfirmation('1001', { prompt: 'Archive?', run: async () => 'done' }), /chat unreachable/);
+    assert.equal(takeConfirmation('1001', failedId), null);
+  });
+});
@@ -0,0 +1,57 @@
+// Lets tools ask the user to approve an action with a button in the chat, without
+// depending on the Telegram integration directly. The action only runs when the user
+// presses the button, so neither the agent nor text it reads (e.g. an email) can
+// approve it on the user's behalf.
+import * as crypto from 'crypto';
+
+// How long the user has to press the button
+const CONFIRMATION_TTL_MS = 10 * 60 * 1000;
+
+export interface ConfirmationRequest {
+  // Shown to the user above the Confirm and Cancel buttons
+  prompt: string;
+  // Performs the action once the user confirms; returns the outcome to show them
+  run: () => Promise<string>;
+}
+
+interface PendingConfirmation extends ConfirmationRequest {
+  userId: string;
+  expiresAt: number;
+}
+
+type ConfirmationPrompter = (userId: string, confirmationId: string, prompt: string) => Promise<void>;
+
+let confirmationPrompter: ConfirmationPrompter | null = null;
+const pendingConfirmations: Map<string, PendingConfirmation> = new Map();
+
+export function setConfirmationPrompter(prompter: ConfirmationPrompter) {
+  confirmationPrompter = prompter;
+}
+
+// Show the prompt with Confirm and Cancel buttons in the chat the user is talking from
+export async function requestConfirmation(userId: string, request: ConfirmationRequest): Promise<void> {
+  if (!confirmationPrompter) {
+    throw new Error('No chat is available to ask the user for confirmation');
+  }
+  const now = Date.now();
+  for (const [staleId, stale] of pendingConfirmations) {
+    if (stale.expiresAt < now) pendingConfirmations.delete(staleId);
+  }
+  const confirmationId = crypto.randomBytes(9).toString('base64url');
+  pendingConfirmations.set(confirmationId, { ...request, userId, expiresAt: now + CONFIRMATION_TTL_MS });
+  try {
+    await confirmationPrompter(userId, confirmationId, request.prompt);
+  } catch (error) {
+    pendingConfirmations.delete(confirmationId);
+    throw error;
+  }
+}
+
+// Hands out a pending confirmation exactly once, and only to the user it was shown to;
+// unknown, expired or someone else's confirmations yield null
+export function takeConfirmation(userId: string, confirmationId: string): ConfirmationRequest | null {
+  const pending = pendingConfirmations.get(confirmationId);
+  if (!pending || pending.userId !== userId) return null;
+  pendingConfirmations.delete(confirmationId);
+  return pending.expiresAt < Date.now() ? null : pending;
+}
@@ -0,0 +1,24 @@
+// Lets tools send files back to the chat the user is talking from, without
+// depending on the Telegram integration directly.
+
+export interface OutgoingDocument {
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+  caption?: string;
+}
+
+type DocumentSender = (userId: string, document: OutgoingDocument) => Promise<void>;
+
+let documentSender: DocumentSender | null = null;
+
+export function setDocumentSender(sender: DocumentSender) {
+  documentSender = sender;
+}
+
+export async function sendDocumentToUser(userId: string, document: OutgoingDocument): Promise<void> {
+  if (!documentSender) {
+    throw new Error('No chat is available to deliver files to');
+  }
+  await documentSender(userId, document);
+}
@@ -1,23 +1,113 @@
-import { OAuth2Client, Credentials } from 'google-auth-library';
+import { OAuth2Client } from 'google-auth-library';
 import { google } from 'googleapis';
 import * as fs from 'fs';
 import * as path from 'path';
-import { inspect } from 'util';
+import {
+  TokenStore,
+  UserAccounts,
+  LinkedAccount,
+  DEFAULT_ACCOUNT_ALIAS,
+  createTokenStoreFromEnv,
+  migrateLegacyTokenFile
+} from './tokenStore';
 
-const SCOPES = [
-  'https://www.googleapis.com/auth/gmail.readonly',
-  'https://www.googleapis.com/auth/gmail.send',
-  'https://www.googleapis.com/auth/gmail.modify',
-  'https://www.googleapis.com/auth/calendar',
-  'https://www.googleapis.com/auth/calendar.events'
-];
+const GMAIL_READONLY = 'https://www.googleapis.com/auth/gmail.readonly';
+const GMAIL_SEND = 'https://www.googleapis.com/auth/gmail.send';
+const GMAIL_MODIFY = 'https://www.googleapis.com/auth/gmail.modify';
+const GMAIL_COMPOSE = 'https://www.googleapis.com/auth/gmail.compose';
+const GMAIL_SETTINGS_BASIC = 'https://www.googleapis.com/auth/gmail.settings.basic';
+const GMAIL_FULL = 'https://mail.google.com/';
+const CALENDAR_READONLY = 'https://www.googleapis.com/auth/calendar.readonly';
+const CALENDAR_EVENTS = 'https://www.googleapis.com/auth/calendar.events';
+const CALENDAR_EVENTS_READONLY = 'https://www.googleapis.com/auth/calendar.events.readonly';
+const CALENDAR_FULL = 'https://www.googleapis.com/auth/calendar';
+
+// Permission sets a user picks from when connecting an account
+export type ScopeProfile = 'readonly' | 'triage' | 'full';
+
+export const SCOPE_PROFILES: { [profile in ScopeProfile]: { label: string; description: string; scopes: string[] } } = {
+  readonly: {
+    label: 'Read-only',
+    description: 'Read mail and calendars. Nothing can be sent, changed or deleted.',
+    scopes: [GMAIL_READONLY, CALENDAR_READONLY]
+  },
+  triage: {
+    label: 'Triage',
+    description: 'Read and organize mail (labels, filters, archive, trash), write drafts and manage calendar events. ' +
+      "The bot will not send mail, but Google's permission to modify mail also covers sending, so the token itself could.",
+    scopes: [GMAIL_MODIFY, GMAIL_SETTINGS_BASIC, CALENDAR_READONLY, CALENDAR_EVENTS]
+  },
+  full: {
+    label: 'Full',
+    description: 'Everything in triage, plus sending mail and full calendar access.',
+    scopes: [GMAIL_READONLY, GMAIL_SEND, GMAIL_MODIFY, GMAIL_SETTINGS_BASIC, CALENDAR_FULL, CALENDAR_EVENTS]
+  }
+};
+
+// Scopes added to profiles after accounts were already connected with them. Accounts
+// without these still count as their profile; only the features needing them are refused.
+const LATER_PROFILE_SCOPES = [GMAIL_SETTINGS_BASIC];
+
+// What a tool needs to do, each satisfied by any one of the listed scopes
+const CAPABILITY_SCOPES = {
+  'gmail.read': [GMAIL_READONLY, GMAIL_MODIFY, GMAIL_FULL],
+  'gmail.modify': [GMAIL_MODIFY, GMAIL_FULL],
+  'gmail.send': [GMAIL_SEND, GMAIL_FULL],
+  'gmail.compose': [GMAIL_COMPOSE, GMAIL_MODIFY, GMAIL_FULL],
+  'gmail.settings': [GMAIL_SETTINGS_BASIC, GMAIL_FULL],
+  'calendar.read': [CALENDAR_READONLY, CALENDAR_EVENTS_READONLY, CALENDAR_EVENTS, CALENDAR_FULL],
+  'calendar.write': [CALENDAR_EVENTS, CALENDAR_FULL]
+};
+
+export type GoogleCapability = keyof typeof CAPABILITY_SCOPES;
+
+const CAPABILITY_DESCRIPTIONS: { [capability in GoogleCapability]: string } = {
+  'gmail.read': 'reading mail',
+  'gmail.modify': 'changing mail (labels, archive, trash)',
+  'gmail.send': 'sending mail',
+  'gmail.compose': 'writing drafts',
+  'gmail.settings': 'managing filters',
+  'calendar.read': 'reading calendars',
+  'calendar.write': 'changing calendar events'
+};
+
+function grantedScopes(scope?: string | null): string[] {
+  return (scope || '').split(/\s+/).filter(Boolean);
+}
+
+function hasCapability(scopes: string[], capability: GoogleCapability): boolean {
+  return CAPABILITY_SCOPES[capability].some(scope => scopes.includes(scope));
+}
+
+// The widest profile fully covered by the granted scopes, or null if not even read-only is
+export function profileForScopes(scope?: string | null): ScopeProfile | null {
+  const scopes = grantedScopes(scope);
+  const profiles: ScopeProfile[] = ['full', 'triage', 'readonly'];
+  return profiles.find(profile => SCOPE_PROFILES[profile].scopes
+    .filter(required => !LATER_PROFILE_SCOPES.includes(required))
+    .every(required => scopes.includes(required))) || null;
+}
+
+export function isScopeProfile(value: string): value is ScopeProfile {
+  return value in SCOPE_PROFILES;
+}
+
+// Each profile covers every narrower one
+const PROFILE_ORDER: ScopeProfile[] = ['readonly', 'triage', 'full'];
+
+export function isWiderProfile(profile: ScopeProfile, than: ScopeProfile): boolean {
+  return PROFILE_ORDER.indexOf(profile) > PROFILE_ORDER.indexOf(than);
+}
 
 const PROJECT_ROOT = path.join(process.cwd(), '..', '..'); 
-const USER_TOKENS_PATH = path.join(PROJECT_ROOT, 'user-tokens.json');
+const LEGACY_USER_TOKENS_PATH = path.join(PROJECT_ROOT, 'user-tokens.json');
 const CREDENTIALS_PATH = path.join(PROJECT_ROOT, 'google-credentials.json');
+const DEFAULT_REDIRECT_URI = 'http://localhost:3001/oauth2callback';
 
-let userTokensCache: { [key: string]: Credentials } = {};
 let credentialsCache: any = null;
+let tokenStorePromise: Promise<TokenStore> | null = null;
+// Per-user queue so concurrent tool calls don't refresh the same token twice
+const userTokenLocks = new Map<string, Promise<unknown>>();
 
 function loadCredentials() {
   if (credentialsCache) {
@@ -34,116 +124,284 @@ function loadCredentials() {
   return credentialsCache;
 }
 
-function loadUserTokens(): { [key: string]: Credentials } {
-  if (Object.keys(userTokensCache).length > 0) {
-    return userTokensCache;
-  }
-  if (fs.existsSync(USER_TOKENS_PATH)) {
-    try {
-      const content = fs.readFileSync(USER_TOKENS_PATH, 'utf-8');
-      userTokensCache = JSON.parse(content);
-      return userTokensCache;
-    } catch (error) {
-      console.error('Error reading user tokens file, starting fresh:', error);
-      userTokensCache = {};
-      return {};
-    }
+// Lazily create the token store and import any plaintext user-tokens.json left from older versions
+export function getTokenStore(): Promise<TokenStore> {
+  if (!tokenStorePromise) {
+    tokenStorePromise = (async () => {
+      const store = createTokenStoreFromEnv(PROJECT_ROOT);
+      await migrateLegacyTokenFile(store, LEGACY_USER_TOKENS_PATH);
+      return store;
+    })();
+    tokenStorePromise.catch(() => { tokenStorePromise = null; });
   }
-  userTokensCache = {};
-  return {};
+  return tokenStorePromise;
 }
 
-function saveUserTokens(tokens: { [key: string]: Credentials }) {
-  try {
-    fs.writeFileSync(USER_TOKENS_PATH, JSON.stringify(tokens, null, 2));
-    userTokensCache = tokens;
-  } catch (error) {
-    console.error('Error saving user tokens:', error);
-  }
+function withUserTokenLock<T>(userId: string, task: () => Promise<T>): Promise<T> {
+  const previous = userTokenLocks.get(userId) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  userTokenLocks.set(userId, next);
+  next.finally(() => {
+    if (userTokenLocks.get(userId) === next) userTokenLocks.delete(userId);
+  }).catch(() => undefined);
+  return next;
+}
+
+// Where Google redirects after consent; served by OAuthCallbackServer
+export function getRedirectUri(): string {
+  return process.env.OAUTH_REDIRECT_URI || DEFAULT_REDIRECT_URI;
 }
 
 export function createOAuth2Client(): OAuth2Client {
   const credentials = loadCredentials();
-  const { client_secret, client_id, redirect_uris } = credentials.installed || credentials.web;
-  return new google.auth.OAuth2(client_id, client_secret, redirect_uris[0]);
+  const { client_secret, client_id } = credentials.installed || credentials.web;
+  return new google.auth.OAuth2(client_id, client_secret, getRedirectUri());
 }
 
-export function generateAuthUrl(oAuth2Client: OAuth2Client): string {
+// include_granted_scopes makes this incremental, adding to what was granted before.
+// It is only sent when widening an account's profile: reconnecting with a narrower
+// profile must yield a token limited to that profile's scopes.
+export function generateAuthUrl(
+  oAuth2Client: OAuth2Client,
+  state?: string,
+  profile: ScopeProfile = 'full',
+  currentProfile: ScopeProfile | null = null
+): string {
   return oAuth2Client.generateAuthUrl({
     access_type: 'offline',
-    scope: SCOPES,
-    prompt: 'consent'
+    scope: SCOPE_PROFILES[profile].scopes,
+    include_granted_scopes: currentProfile !== null && isWiderProfile(profile, currentProfile),
+    prompt: 'consent',
+    state
   });
 }
 
-export async function exchangeCodeForToken(oAuth2Client: OAuth2Client, code: string, userId: string): Promise<boolean> {
+// Aliases are short lowercase names like "work" or "personal"
+export function normalizeAccountAlias(alias: string): string | null {
+  const normalized = alias.trim().toLowerCase();
+  return /^[a-z0-9][a-z0-9_-]{0,31}$/.test(normalized) ? normalized : null;
+}
+
+// Pick the linked account a request refers to, by alias or email, falling back to the user's default
+function findLinkedAccount(record: UserAccounts, account?: string): LinkedAccount {
+  if (!account) {
+    return record.accounts[record.defaultAlias];
+  }
+  const wanted = account.trim().toLowerCase();
+  const match = Object.values(record.accounts).find(linked =>
+    linked.alias === wanted || linked.email?.toLowerCase() === wanted
+  );
+  if (!match) {
+    const known = Object.values(record.accounts).map(linked => linked.alias).join(', ');
+    throw new Error(`No linked Google account named "${account}". Linked accounts: ${known}`);
+  }
+  return match;
+}
+
+async function lookupAccountEmail(oAuth2Client: OAuth2Client): Promise<string | undefined> {
+  try {
+    const profile = await google.gmail({ version: 'v1', auth: oAuth2Client }).users.getProfile({ userId: 'me' });
+    return profile.data.emailAddress ?? undefined;
+  } catch (error) {
+    console.warn('Could not look up the email address of a newly linked account:', error);
+    return undefined;
+  }
+}
+
+// Stores the tokens for a completed sign-in and returns the scopes Google actually
+// granted, which can be fewer than were asked for; null when the exchange failed.
+export async function exchangeCodeForToken(
+  oAuth2Client: OAuth2Client,
+  code: string,
+  userId: string,
+  alias: string = DEFAULT_ACCOUNT_ALIAS
+): Promise<string | null> {
   try {
-    console.log(`Exchanging code for token for user: ${userId}`);
+    console.log(`Exchanging code for token for user: ${userId} (account: ${alias})`);
     const { tokens } = await oAuth2Client.getToken(code);
-    console.log(`Received tokens for user ${userId}:`, inspect(tokens, { depth: 1 }));
+    console.log(`Received tokens for user ${userId} (scopes: ${tokens.scope}, expiry: ${tokens.expiry_date})`);
 
     if (!tokens.access_token || !tokens.refresh_token) {
         console.error(`Error: Missing access_token or refresh_token for user ${userId}`);
         const checkAuthUrl = generateAuthUrl(oAuth2Client);
         console.error(`Please ensure the OAuth consent screen is configured correctly and user grants offline access. Maybe try this URL: ${checkAuthUrl}`);
-        return false;
+        return null;
     }
 
-    const allTokens = loadUserTokens();
-    allTokens[userId] = tokens;
-    saveUserTokens(allTokens);
-    console.log(`Token stored successfully for user: ${userId}`);
-    return true;
+    oAuth2Client.setCredentials(tokens);
+    const email = await lookupAccountEmail(oAuth2Client);
+
+    const store = await getTokenStore();
+    await withUserTokenLock(userId, async () => {
+      const record: UserAccounts = (await store.get(userId)) || { defaultAlias: alias, accounts: {} };
+      record.accounts[alias] = { alias, email, tokens };
+      if (!record.accounts[record.defaultAlias]) {
+        record.defaultAlias = alias;
+      }
+      await store.set(userId, record);
+    });
+    console.log(`Token stored successfully for user: ${userId} (account: ${alias})`);
+    return tokens.scope || '';
   } catch (error) {
     console.error(`Error retrieving or storing access token for user ${userId}:`, error);
-    return false;
+    return null;
   }
 }
 
-export async function getAuthenticatedClient(userId: string): Promise<OAuth2Client | null> {
-  const allTokens = loadUserTokens();
-  const userToken = allTokens[userId];
+// Returns a client for one of the user's linked accounts (the default one when no
+// alias or email is given), or null when the user has not connected Google yet.
+// When a capability is given, accounts connected without a matching scope are refused.
+export async function getAuthenticatedClient(
+  userId: string,
+  account?: string,
+  capability?: GoogleCapability
+): Promise<OAuth2Client | null> {
+  const store = await getTokenStore();
 
-  if (!userToken) {
-    console.log(`No token found for user ${userId}. Authentication required.`);
-    return null;
-  }
+  return withUserTokenLock(userId, async () => {
+    const record = await store.get(userId);
+
+    if (!record || Object.keys(record.accounts).length === 0) {
+      console.log(`No token found for user ${userId}. Authentication required.`);
+      return null;
+    }
 
-  const oAuth2Client = createOAuth2Client();
-  oAuth2Client.setCredentials(userToken);
-
-  const expiryBuffer = 5 * 60 * 1000; 
-  if (userToken.expiry_date && userToken.expiry_date < (Date.now() + expiryBuffer)) {
-    console.log(`Token for user ${userId} is expired or nearing expiry, refreshing...`);
-    try {
-      const { credentials } = await oAuth2Client.refreshAccessToken();
-      console.log(`Refreshed token for user ${userId}:`, inspect(credentials, { depth: 1 }));
-      
-      const updatedTokens = { ...userToken, ...credentials }; 
-      
-      allTokens[userId] = updatedTokens;
-      saveUserTokens(allTokens);
-      oAuth2Client.setCredentials(updatedTokens);
-      console.log(`Token refreshed and saved successfully for user: ${userId}`);
-    } catch (refreshError) {
-      console.error(`Error refreshing access token for user ${userId}:`, refreshError);
-      delete allTokens[userId];
-      saveUserTokens(allTokens);
-      return null; 
+    const linked = findLinkedAccount(record, account);
+    const userToken = linked.tokens;
+    if (capability && !hasCapability(grantedScopes(userToken.scope), capability)) {
+      const profile = profileForScopes(userToken.scope);
+      throw new Error(
+        `Permission missing: the "${linked.alias}" Google account was connected with ` +
+        `${profile ? `the ${SCOPE_PROFILES[profile].label.toLowerCase()} profile` : 'limited permissions'}, ` +
+        `which does not allow ${CAPABILITY_DESCRIPTIONS[capability]}. ` +
+        `The user can grant it with /connect_google ${linked.alias === DEFAULT_ACCOUNT_ALIAS ? '' : `${linked.alias} `}full`
+      );
     }
+    const oAuth2Client = createOAuth2Client();
+    oAuth2Client.setCredentials(userToken);
+
+    const expiryBuffer = 5 * 60 * 1000; 
+    if (userToken.expiry_date && userToken.expiry_date < (Date.now() + expiryBuffer)) {
+      console.log(`Token for user ${userId} (account: ${linked.alias}) is expired or nearing expiry, refreshing...`);
+      try {
+        const { credentials } = await oAuth2Client.refreshAccessToken();
+        console.log(`Refreshed token for user ${userId}, new expiry: ${credentials.expiry_date}`);
+        
+        const updatedTokens = { ...userToken, ...credentials }; 
+        
+        record.accounts[linked.alias] = { ...linked, tokens: updatedTokens };
+        await store.set(userId, record);
+        oAuth2Client.setCredentials(updatedTokens);
+        console.log(`Token refreshed and saved successfully for user: ${userId}`);
+      } catch (refreshError) {
+        console.error(`Error refreshing access token for user ${userId}:`, refreshError);
+        await removeLinkedAccounts(store, userId, record, [linked.alias]);
+        return null; 
+      }
+    }
+    
+    return oAuth2Client;
+  });
+}
+
+// Drop accounts from a user's record, promoting another account to default if needed
+async function removeLinkedAccounts(store: TokenStore, userId: string, record: UserAccounts, aliases: string[]) {
+  aliases.forEach(alias => delete record.accounts[alias]);
+  const remaining = Object.keys(record.accounts);
+  if (remaining.length === 0) {
+    await store.delete(userId);
+    return;
+  }
+  if (!record.accounts[record.defaultAlias]) {
+    record.defaultAlias = remaining[0];
   }
-  
-  return oAuth2Client;
+  await store.set(userId, record);
+}
+
+export async function listLinkedAccounts(
+  userId: string
+): Promise<{ alias: string; email?: string; isDefault: boolean; profile: ScopeProfile | null }[]> {
+  const store = await getTokenStore();
+  const record = await store.get(userId);
+  if (!record) return [];
+  return Object.values(record.accounts).map(linked => ({
+    alias: linked.alias,
+    email: linked.email,
+    isDefault: linked.alias === record.defaultAlias,
+    profile: profileForScopes(linked.tokens.scope)
+  }));
+}
+
+// The linked account a tool call targets, without loading or refreshing its tokens
+export async function getLinkedAccount(userId: string, account?: string): Promise<{ alias: string; email?: string } | null> {
+  const store = await getTokenStore();
+  const record = await store.get(userId);
+  if (!record || Object.keys(record.accounts).length === 0) return null;
+  const { alias, email } = findLinkedAccount(record, account);
+  return { alias, email };
+}
+
+export async function setDefaultAccount(userId: string, account: string): Promise<LinkedAccount> {
+  const store = await getTokenStore();
+
+  return withUserTokenLock(userId, async () => {
+    const record = await store.get(userId);
+    if (!record || Object.keys(record.accounts).length === 0) {
+      throw new Error('No Google account is connected.');
+    }
+    const linked = findLinkedAccount(record, account);
+    record.defaultAlias = linked.alias;
+    await store.set(userId, record);
+    return linked;
+  });
+}
+
+// Revoke grants with Google and delete them from the token store: one account when
+// an alias or email is given, otherwise every account the user linked.
+// Local tokens are removed even if Google rejects the revocation (e.g. already revoked).
+export async function disconnectGoogleAccount(
+  userId: string,
+  account?: string
+): Promise<{ alias: string; email?: string; revoked: boolean }[]> {
+  const store = await getTokenStore();
+
+  return withUserTokenLock(userId, async () => {
+    const record = await store.get(userId);
+    if (!record) {
+      return [];
+    }
+
+    const targets = account ? [findLinkedAccount(record, account)] : Object.values(record.accounts);
+    const results: { alias: string; email?: string; revoked: boolean }[] = [];
+
+    for (const linked of targets) {
+      let revoked = false;
+      const tokenToRevoke = linked.tokens.refresh_token || linked.tokens.access_token;
+      if (tokenToRevoke) {
+        try {
+          await createOAuth2Client().revokeToken(tokenToRevoke);
+          revoked = true;
+        } catch (revokeError) {
+          console.error(`Error revoking Google token for user ${userId} (account: ${linked.alias}):`, revokeError);
+        }
+      }
+      results.push({ alias: linked.alias, email: linked.email, revoked });
+    }
+
+    await removeLinkedAccounts(store, userId, record, targets.map(linked => linked.alias));
+    console.log(`Google account(s) disconnected for user ${userId}: ${results.map(r => `${r.alias} (revoked: ${r.revoked})`).join(', ')}`);
+    return results;
+  });
 }
 
-export async function getGmailService(userId: string) {
-  const auth = await getAuthenticatedClient(userId);
+export async function getGmailService(userId: string, account: string | undefined, capability: GoogleCapability) {
+  const auth = await getAuthenticatedClient(userId, account, capability);
   if (!auth) return null;
   return google.gmail({ version: 'v1', auth });
 }
 
-export async function getCalendarService(userId: string) {
-  const auth = await getAuthenticatedClient(userId);
+export async function getCalendarService(userId: string, account: string | undefined, capability: GoogleCapability) {
+  const auth = await getAuthenticatedClient(userId, account, capability);
   if (!auth) return null;
   return google.calendar({ version: 'v3', auth });
 } 
\ No newline at end of file
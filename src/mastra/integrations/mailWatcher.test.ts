@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchNotificationRules, isQuietTime, isValidTimeOfDay, defaultNotificationSettings, NotificationRules } from './mailWatcher';
+
+describe('matchNotificationRules', () => {
+  const rules: NotificationRules = {
+    vipSenders: ['boss@acme.com', '@partner.org', 'bank.com'],
+    labels: ['Clients'],
+    keywords: ['Invoice']
+  };
+  const message = { from: 'Someone <someone@example.com>', subject: 'Hello', snippet: 'Just saying hi', labelNames: ['INBOX'] };
+
+  it('matches VIP addresses exactly and domains by suffix', () => {
+    assert.equal(matchNotificationRules(rules, { ...message, from: 'The Boss <Boss@Acme.com>' }), 'VIP sender boss@acme.com');
+    assert.equal(matchNotificationRules(rules, { ...message, from: 'not-boss@acme.com' }), null);
+    assert.equal(matchNotificationRules(rules, { ...message, from: 'ana@partner.org' }), 'VIP sender @partner.org');
+    assert.equal(matchNotificationRules(rules, { ...message, from: 'alerts@bank.com' }), 'VIP sender bank.com');
+    // A domain rule must not match a longer domain that merely ends the same way
+    assert.equal(matchNotificationRules(rules, { ...message, from: 'eve@evilpartner.org' }), null);
+    assert.equal(matchNotificationRules(rules, { ...message, from: 'eve@notbank.com' }), null);
+  });
+
+  it('matches label names and keywords ignoring case', () => {
+    assert.equal(matchNotificationRules(rules, { ...message, labelNames: ['clients'] }), 'label Clients');
+    assert.equal(matchNotificationRules(rules, { ...message, subject: 'Your INVOICE for May' }), 'keyword "Invoice"');
+    assert.equal(matchNotificationRules(rules, { ...message, snippet: 'the invoice is attached' }), 'keyword "Invoice"');
+  });
+
+  it('matches nothing without rules', () => {
+    assert.equal(matchNotificationRules(defaultNotificationSettings().rules, message), null);
+    assert.equal(matchNotificationRules(rules, message), null);
+  });
+});
+
+describe('isQuietTime', () => {
+  const settings = { ...defaultNotificationSettings(), quietHours: { start: '22:00', end: '07:00' } };
+
+  it("wraps past midnight in the user's time zone", () => {
+    // 21:30 UTC is 22:30 in Berlin in winter, but still 16:30 in New York
+    assert.equal(isQuietTime(settings, 'Europe/Berlin', new Date('2026-01-15T21:30:00Z')), true);
+    assert.equal(isQuietTime(settings, 'America/New_York', new Date('2026-01-15T21:30:00Z')), false);
+    assert.equal(isQuietTime(settings, 'Europe/Berlin', new Date('2026-01-15T05:59:00Z')), true);
+    assert.equal(isQuietTime(settings, 'Europe/Berlin', new Date('2026-01-15T06:00:00Z')), false);
+  });
+
+  it('handles ranges within one day and no quiet hours', () => {
+    const lunch = { ...defaultNotificationSettings(), quietHours: { start: '12:00', end: '13:00' } };
+    assert.equal(isQuietTime(lunch, 'UTC', new Date('2026-01-15T12:30:00Z')), true);
+    assert.equal(isQuietTime(lunch, 'UTC', new Date('2026-01-15T13:00:00Z')), false);
+    assert.equal(isQuietTime(defaultNotificationSettings(), 'UTC', new Date('2026-01-15T23:00:00Z')), false);
+  });
+});
+
+describe('isValidTimeOfDay', () => {
+  it('accepts 24-hour times only', () => {
+    assert.ok(isValidTimeOfDay('7:05'));
+    assert.ok(isValidTimeOfDay('23:59'));
+    assert.ok(!isValidTimeOfDay('24:00'));
+    assert.ok(!isValidTimeOfDay('7pm'));
+  });
+});
@@ -0,0 +1,334 @@
+import { createClient, Client } from '@libsql/client';
+import { getGmailService, listLinkedAccounts } from './googleAuth';
+import { emailAddressOf } from '../tools/mimeComposer';
+import { getLabels, labelCacheKey } from '../tools/labelCache';
+import { getUserTimeZone, zonedParts } from './userTimeZone';
+
+const NOTIFICATIONS_DB_URL = process.env.NOTIFICATIONS_DB_URL || 'file:notifications.db';
+const POLL_INTERVAL_MS = Number(process.env.MAIL_POLL_INTERVAL_SECONDS || 60) * 1000;
+// Most new messages inspected per account and poll, so a flood of mail can't stall the watcher;
+// new messages beyond it wait for the next poll
+const MAX_MESSAGES_PER_POLL = 50;
+// Added messages that are never announced
+const IGNORED_LABEL_IDS = ['SENT', 'DRAFT', 'SPAM', 'TRASH'];
+
+// What makes a new email worth a notification; any single match is enough
+export interface NotificationRules {
+  vipSenders: string[]; // Addresses or whole domains, e.g. "boss@acme.com" or "@acme.com"
+  labels: string[]; // Label names, e.g. "Clients" or "IMPORTANT"
+  keywords: string[]; // Matched case-insensitively against subject and preview
+}
+
+export interface NotificationSettings {
+  enabled: boolean;
+  rules: NotificationRules;
+  // "HH:MM" in 24-hour time in the user's time zone; may wrap past midnight, e.g. 22:00-07:00
+  quietHours?: { start: string; end: string };
+}
+
+export interface MailNotification {
+  account: string;
+  emailId: string;
+  threadId?: string;
+  from: string;
+  subject: string;
+  snippet: string;
+  reason: string;
+}
+
+export function defaultNotificationSettings(): NotificationSettings {
+  return { enabled: false, rules: { vipSenders: [], labels: [], keywords: [] } };
+}
+
+// Per-user notification settings, the last Gmail history ID seen for each linked account,
+// and matches held back during quiet hours
+export class NotificationStore {
+  private client: Client;
+  private ready: Promise<void>;
+
+  constructor(url: string) {
+    this.client = createClient({ url });
+    this.ready = this.client.batch([
+      'CREATE TABLE IF NOT EXISTS notification_settings (user_id TEXT PRIMARY KEY, settings TEXT NOT NULL, updated_at INTEGER NOT NULL)',
+      'CREATE TABLE IF NOT EXISTS mail_history_cursors (user_id TEXT NOT NULL, account TEXT NOT NULL, history_id TEXT NOT NULL, PRIMARY KEY (user_id, account))',
+      'CREATE TABLE IF NOT EXISTS held_notifications (user_id TEXT NOT NULL, account TEXT NOT NULL, email_id TEXT NOT NULL, notification TEXT NOT NULL, held_at INTEGER NOT NULL, PRIMARY KEY (user_id, account, email_id))'
+    ], 'write').then(() => undefined);
+  }
+
+  async getSettings(userId: string): Promise<NotificationSettings> {
+    await this.ready;
+    const result = await this.client.execute({
+      sql: 'SELECT settings FROM notification_settings WHERE user_id = ?',
+      args: [userId]
+    });
+    const row = result.rows[0];
+    return row ? { ...defaultNotificationSettings(), ...JSON.parse(String(row.settings)) } : defaultNotificationSettings();
+  }
+
+  async setSettings(userId: string, settings: NotificationSettings): Promise<void> {
+    await this.ready;
+    await this.client.execute({
+      sql: `INSERT INTO notification_settings (user_id, settings, updated_at) VALUES (?, ?, ?)
+            ON CONFLICT(user_id) DO UPDATE SET settings = excluded.settings, updated_at = excluded.updated_at`,
+      args: [userId, JSON.stringify(settings), Date.now()]
+    });
+  }
+
+  async listEnabledUserIds(): Promise<string[]> {
+    await this.ready;
+    const result = await this.client.execute('SELECT user_id, settings FROM notification_settings');
+    return result.rows
+      .filter(row => JSON.parse(String(row.settings)).enabled)
+      .map(row => String(row.user_id));
+  }
+
+  async getCursor(userId: string, account: string): Promise<string | null> {
+    await this.ready;
+    const result = await this.client.execute({
+      sql: 'SELECT history_id FROM mail_history_cursors WHERE user_id = ? AND account = ?',
+      args: [userId, account]
+    });
+    return result.rows[0] ? String(result.rows[0].history_id) : null;
+  }
+
+  async setCursor(userId: string, account: string, historyId: string): Promise<void> {
+    await this.ready;
+    await this.client.execute({
+      sql: `INSERT INTO mail_history_cursors (user_id, account, history_id) VALUES (?, ?, ?)
+            ON CONFLICT(user_id, account) DO UPDATE SET history_id = excluded.history_id`,
+      args: [userId, account, historyId]
+    });
+  }
+
+  // The cursors have already moved past held matches, so they are kept here until delivered
+  async holdNotifications(userId: string, notifications: MailNotification[]): Promise<void> {
+    await this.ready;
+    const heldAt = Date.now();
+    await this.client.batch(notifications.map(notification => ({
+      sql: 'INSERT OR IGNORE INTO held_notifications (user_id, account, email_id, notification, held_at) VALUES (?, ?, ?, ?, ?)',
+      args: [userId, notification.account, notification.emailId, JSON.stringify(notification), heldAt]
+    })), 'write');
+  }
+
+  async getHeldNotifications(userId: string): Promise<MailNotification[]> {
+    await this.ready;
+    const result = await this.client.execute({
+      sql: 'SELECT notification FROM held_notifications WHERE user_id = ? ORDER BY held_at',
+      args: [userId]
+    });
+    return result.rows.map(row => JSON.parse(String(row.notification)));
+  }
+
+  async clearHeldNotifications(userId: string): Promise<void> {
+    await this.ready;
+    await this.client.execute({ sql: 'DELETE FROM held_notifications WHERE user_id = ?', args: [userId] });
+  }
+
+  // Forget every cursor and held match so the next poll starts from "now" instead of replaying old mail
+  async clearCursors(userId: string): Promise<void> {
+    await this.ready;
+    await this.client.execute({ sql: 'DELETE FROM mail_history_cursors WHERE user_id = ?', args: [userId] });
+    await this.clearHeldNotifications(userId);
+  }
+
+  async deleteUser(userId: string): Promise<void> {
+    await this.ready;
+    await this.clearCursors(userId);
+    await this.client.execute({ sql: 'DELETE FROM notification_settings WHERE user_id = ?', args: [userId] });
+  }
+}
+
+let notificationStore: NotificationStore | null = null;
+
+export function getNotificationStore(): NotificationStore {
+  if (!notificationStore) {
+    notificationStore = new NotificationStore(NOTIFICATIONS_DB_URL);
+  }
+  return notificationStore;
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function isValidTimeOfDay(time: string): boolean {
+  return /^([01]?\d|2[0-3]):[0-5]\d$/.test(time);
+}
+
+export function isQuietTime(settings: NotificationSettings, timeZone: string, now: Date = new Date()): boolean {
+  if (!settings.quietHours) return false;
+  const local = zonedParts(now, timeZone);
+  const current = local.hour * 60 + local.minute;
+  const start = minutesOf(settings.quietHours.start);
+  const end = minutesOf(settings.quietHours.end);
+  return start <= end ? current >= start && current < end : current >= start || current < end;
+}
+
+// The first rule a message matches, as a short reason for the notification, or null
+export function matchNotificationRules(
+  rules: NotificationRules,
+  message: { from: string; subject: string; snippet: string; labelNames: string[] }
+): string | null {
+  const sender = emailAddressOf(message.from);
+  const vip = rules.vipSenders.find(entry => {
+    const wanted = entry.toLowerCase();
+    return wanted.includes('@') && !wanted.startsWith('@')
+      ? sender === wanted
+      : sender.endsWith(wanted.startsWith('@') ? wanted : `@${wanted}`);
+  });
+  if (vip) return `VIP sender ${vip}`;
+
+  const labelNames = message.labelNames.map(name => name.toLowerCase());
+  const label = rules.labels.find(name => labelNames.includes(name.toLowerCase()));
+  if (label) return `label ${label}`;
+
+  const text = `${message.subject}\n${message.snippet}`.toLowerCase();
+  const keyword = rules.keywords.find(word => text.includes(word.toLowerCase()));
+  if (keyword) return `keyword "${keyword}"`;
+
+  return null;
+}
+
+type NotificationHandler = (userId: string, notifications: MailNotification[], heldDuringQuietHours: boolean) => Promise<void>;
+
+// Polls Gmail history for every user who turned notifications on and reports new mail matching their rules
+export class MailWatcher {
+  private store = getNotificationStore();
+  private running = false;
+
+  constructor(private onNotify: NotificationHandler) {
+    setInterval(() => this.pollAll(), POLL_INTERVAL_MS).unref();
+  }
+
+  private async pollAll() {
+    // Skip a tick while the previous poll is still running
+    if (this.running) return;
+    this.running = true;
+    try {
+      for (const userId of await this.store.listEnabledUserIds()) {
+        try {
+          await this.pollUser(userId);
+        } catch (error) {
+          console.error(`Error checking new mail for user ${userId}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Error polling for new mail:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async pollUser(userId: string) {
+    const settings = await this.store.getSettings(userId);
+    const matches: MailNotification[] = [];
+    for (const account of await listLinkedAccounts(userId)) {
+      matches.push(...await this.pollAccount(userId, account.alias, settings));
+    }
+
+    // Matches found during quiet hours are delivered together once they end
+    const quiet = isQuietTime(settings, await getUserTimeZone(userId));
+    if (quiet) {
+      if (matches.length > 0) await this.store.holdNotifications(userId, matches);
+      return;
+    }
+    const held = await this.store.getHeldNotifications(userId);
+    if (held.length > 0) {
+      await this.onNotify(userId, held, true);
+      await this.store.clearHeldNotifications(userId);
+    }
+    if (matches.length > 0) {
+      await this.onNotify(userId, matches, false);
+    }
+  }
+
+  private async pollAccount(userId: string, account: string, settings: NotificationSettings): Promise<MailNotification[]> {
+    const gmail = await getGmailService(userId, account, 'gmail.read');
+    if (!gmail) return [];
+
+    const cursor = await this.store.getCursor(userId, account);
+    if (!cursor) {
+      // First poll for this account: start from now rather than notifying about the whole inbox
+      const profile = await gmail.users.getProfile({ userId: 'me' });
+      if (profile.data.historyId) await this.store.setCursor(userId, account, profile.data.historyId);
+      return [];
+    }
+
+    // All labels, not just the inbox: a Gmail filter may label and archive mail the
+    // user's label rules are waiting for. The cursor only moves past history entries
+    // whose messages are inspected, so a flood is worked off over several polls.
+    const messageIds = new Set<string>();
+    let latestHistoryId = cursor;
+    let pageToken: string | undefined;
+    let pollFull = false;
+    try {
+      do {
+        const response = await gmail.users.history.list({
+          userId: 'me',
+          startHistoryId: cursor,
+          historyTypes: ['messageAdded'],
+          pageToken
+        });
+        for (const entry of response.data.history || []) {
+          const added = (entry.messagesAdded || [])
+            .map(({ message }) => message)
+            .filter(message => message?.id && !(message.labelIds || []).some(id => IGNORED_LABEL_IDS.includes(id)))
+            .map(message => message!.id!);
+          if (messageIds.size > 0 && messageIds.size + added.length > MAX_MESSAGES_PER_POLL) {
+            pollFull = true;
+            break;
+          }
+          added.forEach(id => messageIds.add(id));
+          latestHistoryId = entry.id || latestHistoryId;
+        }
+        pageToken = pollFull ? undefined : response.data.nextPageToken ?? undefined;
+        // Everything was read: skip ahead past history that added no messages
+        if (!pollFull && !pageToken) latestHistoryId = response.data.historyId || latestHistoryId;
+      } while (pageToken);
+    } catch (error: any) {
+      // Gmail only keeps history for about a week; start over from now when the cursor is too old
+      if (error?.code === 404 || error?.response?.status === 404) {
+        const profile = await gmail.users.getProfile({ userId: 'me' });
+        if (profile.data.historyId) await this.store.setCursor(userId, account, profile.data.historyId);
+        return [];
+      }
+      throw error;
+    }
+    await this.store.setCursor(userId, account, latestHistoryId);
+
+    if (messageIds.size === 0) return [];
+    const labels = await getLabels(gmail, await labelCacheKey(userId, account));
+    const labelNames = new Map(labels.map(label => [label.id || '', label.name || '']));
+
+    const notifications: MailNotification[] = [];
+    for (const id of messageIds) {
+      try {
+        const message = await gmail.users.messages.get({
+          userId: 'me',
+          id,
+          format: 'metadata',
+          metadataHeaders: ['From', 'Subject']
+        });
+        const headers = message.data.payload?.headers || [];
+        const header = (name: string) => headers.find(entry => entry.name?.toLowerCase() === name)?.value;
+        const from = header('from') || '(Unknown Sender)';
+        const subject = header('subject') || '(No Subject)';
+        const snippet = message.data.snippet || '';
+        const reason = matchNotificationRules(settings.rules, {
+          from,
+          subject,
+          snippet,
+          labelNames: (message.data.labelIds || []).map(labelId => labelNames.get(labelId) || labelId)
+        });
+        if (reason) {
+          notifications.push({ account, emailId: id, threadId: message.data.threadId ?? undefined, from, subject, snippet, reason });
+        }
+      } catch (error) {
+        // The message may have been deleted since it arrived
+        console.warn(`Could not inspect new message ${id} for user ${userId}:`, error);
+      }
+    }
+    return notifications;
+  }
+}
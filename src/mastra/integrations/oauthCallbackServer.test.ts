@@ -0,0 +1,85 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as net from 'net';
+import { OAuthCallbackServer, PendingAuth, AuthResult } from './oauthCallbackServer';
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.on('error', reject);
+    probe.listen(0, () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+describe('OAuthCallbackServer', () => {
+  const completed: { pending: PendingAuth; result: AuthResult }[] = [];
+  let server: OAuthCallbackServer;
+  let callbackUrl: string;
+
+  before(async () => {
+    const port = await freePort();
+    process.env.OAUTH_CALLBACK_PORT = String(port);
+    process.env.OAUTH_REDIRECT_URI = `http://localhost:${port}/oauth2callback`;
+    callbackUrl = process.env.OAUTH_REDIRECT_URI;
+    server = new OAuthCallbackServer(async (pending, result) => {
+      completed.push({ pending, result });
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  // The user cancelling on Google's consent screen, so no token exchange is attempted
+  async function cancelWith(state: string): Promise<{ status: number; text: string }> {
+    const response = await fetch(`${callbackUrl}?state=${encodeURIComponent(state)}&error=access_denied`);
+    return { status: response.status, text: await response.text() };
+  }
+
+  it('hands a valid state to the user that started the flow exactly once', async () => {
+    const state = server.createState('1001', 42, 'work', 'readonly');
+
+    const first = await cancelWith(state);
+    assert.equal(first.status, 400);
+    assert.match(first.text, /cancelled/);
+    assert.equal(completed.length, 1);
+    assert.equal(completed[0].pending.userId, '1001');
+    assert.equal(completed[0].pending.chatId, 42);
+    assert.deepEqual(completed[0].result, { status: 'denied', reason: 'access_denied' });
+
+    const replay = await cancelWith(state);
+    assert.match(replay.text, /invalid or has expired/);
+    assert.equal(completed.length, 1);
+  });
+
+  it('rejects forged states', async () => {
+    completed.length = 0;
+    const state = server.createState('1001', 42, 'work', 'readonly');
+    const [payload, signature] = state.split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    const forged = Buffer.from(JSON.stringify({ ...claims, u: '6666' })).toString('base64url');
+
+    for (const attempt of [`${forged}.${signature}`, payload, `${payload}.`, 'not-a-state', '']) {
+      assert.match((await cancelWith(attempt)).text, /invalid or has expired/);
+    }
+    assert.equal(completed.length, 0);
+    // The genuine state is still usable afterwards
+    assert.match((await cancelWith(state)).text, /cancelled/);
+  });
+
+  it('rejects expired states', async () => {
+    completed.length = 0;
+    const state = server.createState('1001', 42, 'work', 'readonly');
+    const now = Date.now();
+    mock.method(Date, 'now', () => now + 11 * 60 * 1000);
+    try {
+      assert.match((await cancelWith(state)).text, /invalid or has expired/);
+    } finally {
+      mock.restoreAll();
+    }
+    assert.equal(completed.length, 0);
+  });
+});
@@ -0,0 +1,162 @@
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { createOAuth2Client, exchangeCodeForToken, getRedirectUri, profileForScopes, ScopeProfile } from './googleAuth';
+
+// How long a /connect_google link stays valid
+const PENDING_AUTH_TTL_MS = 10 * 60 * 1000;
+
+export interface PendingAuth {
+  nonce: string;
+  userId: string;
+  chatId: number;
+  accountAlias: string;
+  scopeProfile: ScopeProfile;
+  expiresAt: number;
+}
+
+export type AuthResult =
+  // The profile the granted scopes cover, which may be narrower than the one requested
+  | { status: 'connected'; grantedProfile: ScopeProfile | null }
+  | { status: 'denied'; reason: string }
+  | { status: 'failed'; reason: string };
+
+type AuthCompleteHandler = (pending: PendingAuth, result: AuthResult) => Promise<void>;
+
+// Receives Google's OAuth redirect, verifies the signed state and finishes the
+// token exchange for the Telegram user that started the flow.
+export class OAuthCallbackServer {
+  private server: http.Server;
+  private pending: Map<string, PendingAuth> = new Map();
+  // Pending attempts live in memory only, so a per-process signing key is enough
+  private stateSecret = crypto.randomBytes(32);
+  private callbackPath: string;
+  // Set when the server could not start, e.g. the port is taken; the bot keeps running without sign-in
+  private startError: Error | null = null;
+
+  constructor(private onComplete: AuthCompleteHandler) {
+    const redirectUrl = new URL(getRedirectUri());
+    this.callbackPath = redirectUrl.pathname;
+    const port = Number(process.env.OAUTH_CALLBACK_PORT || redirectUrl.port || 80);
+
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        console.error('Error handling OAuth callback:', error);
+        this.respond(res, 500, 'Something went wrong while connecting your Google account.');
+      });
+    });
+    this.server.on('error', (error: NodeJS.ErrnoException) => {
+      if (this.server.listening) {
+        console.error('OAuth callback server error:', error);
+        return;
+      }
+      this.startError = error;
+      const hint = error.code === 'EADDRINUSE' ? ' (the port is already in use; set OAUTH_CALLBACK_PORT)'
+        : error.code === 'EACCES' ? ' (permission denied; use a port above 1024 or set OAUTH_CALLBACK_PORT)' : '';
+      console.error(`OAuth callback server could not listen on port ${port}${hint}. /connect_google will not work until it is restarted:`, error.message);
+    });
+    this.server.listen(port, () => {
+      console.log(`OAuth callback server listening on port ${port} (${this.callbackPath})`);
+    });
+    setInterval(() => this.pruneExpired(), 60 * 1000).unref();
+  }
+
+  // Stop accepting callbacks
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  // Register a new auth attempt and return the signed state to put in the auth URL
+  createState(userId: string, chatId: number, accountAlias: string, scopeProfile: ScopeProfile): string {
+    if (this.startError) {
+      throw new Error(`OAuth callback server is not running: ${this.startError.message}`);
+    }
+    const nonce = crypto.randomBytes(16).toString('base64url');
+    const expiresAt = Date.now() + PENDING_AUTH_TTL_MS;
+    this.pending.set(nonce, { nonce, userId, chatId, accountAlias, scopeProfile, expiresAt });
+
+    const payload = Buffer.from(JSON.stringify({ n: nonce, u: userId, c: chatId, e: expiresAt })).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  private sign(payload: string): string {
+    return crypto.createHmac('sha256', this.stateSecret).update(payload).digest('base64url');
+  }
+
+  // Returns the pending attempt for a state exactly once; forged, expired or replayed states yield null
+  private consumeState(state: string | null): PendingAuth | null {
+    if (!state) return null;
+    const [payload, signature] = state.split('.');
+    if (!payload || !signature) return null;
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      console.warn('Rejected OAuth callback with invalid state signature');
+      return null;
+    }
+
+    let claims: { n: string; u: string; c: number; e: number };
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    } catch {
+      return null;
+    }
+
+    const pending = this.pending.get(claims.n);
+    if (!pending) {
+      console.warn('Rejected OAuth callback for unknown or already used state');
+      return null;
+    }
+    this.pending.delete(claims.n);
+
+    if (pending.userId !== claims.u || pending.chatId !== claims.c || pending.expiresAt < Date.now()) {
+      console.warn(`Rejected expired or mismatched OAuth state for user ${pending.userId}`);
+      return null;
+    }
+    return pending;
+  }
+
+  private pruneExpired() {
+    const now = Date.now();
+    for (const [nonce, pending] of this.pending) {
+      if (pending.expiresAt < now) this.pending.delete(nonce);
+    }
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (req.method !== 'GET' || url.pathname !== this.callbackPath) {
+      this.respond(res, 404, 'Not found.');
+      return;
+    }
+
+    const pending = this.consumeState(url.searchParams.get('state'));
+    if (!pending) {
+      this.respond(res, 400, 'This sign-in link is invalid or has expired. Please use /connect_google in Telegram again.');
+      return;
+    }
+
+    const oauthError = url.searchParams.get('error');
+    const code = url.searchParams.get('code');
+    if (oauthError || !code) {
+      const reason = oauthError || 'missing authorization code';
+      await this.onComplete(pending, { status: 'denied', reason });
+      this.respond(res, 400, 'Google sign-in was cancelled. You can close this window.');
+      return;
+    }
+
+    const grantedScope = await exchangeCodeForToken(createOAuth2Client(), code, pending.userId, pending.accountAlias);
+    if (grantedScope !== null) {
+      await this.onComplete(pending, { status: 'connected', grantedProfile: profileForScopes(grantedScope) });
+      this.respond(res, 200, 'Your Google account is connected. You can close this window and return to Telegram.');
+    } else {
+      await this.onComplete(pending, { status: 'failed', reason: 'token exchange failed' });
+      this.respond(res, 500, 'Failed to connect your Google account. Please try /connect_google again.');
+    }
+  }
+
+  private respond(res: http.ServerResponse, statusCode: number, message: string) {
+    res.writeHead(statusCode, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(`<!DOCTYPE html><html><body><p>${message}</p></body></html>`);
+  }
+}
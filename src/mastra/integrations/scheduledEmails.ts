@@ -0,0 +1,266 @@
+import { createClient, Client } from '@libsql/client';
+import * as crypto from 'crypto';
+import { TokenCipher } from './tokenStore';
+import { getGmailService } from './googleAuth';
+import { composeEmail, ComposeEmailOptions } from '../tools/mimeComposer';
+
+const SCHEDULED_EMAILS_DB_URL = process.env.SCHEDULED_EMAILS_DB_URL || 'file:scheduled-emails.db';
+// How often the dispatcher looks for emails that are due
+const DISPATCH_INTERVAL_MS = 30 * 1000;
+
+export type ScheduledEmailStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled';
+
+// What gets sent; attachments are stored with the job because chat uploads only live in memory
+export interface ScheduledEmailContent {
+  to: string;
+  cc?: string;
+  bcc?: string;
+  subject: string;
+  body: string;
+  attachments?: { filename: string; mimeType: string; data: string }[];
+}
+
+export interface ScheduledEmail {
+  id: string;
+  userId: string;
+  account?: string;
+  sendAt: number;
+  status: ScheduledEmailStatus;
+  content: ScheduledEmailContent;
+  gmailMessageId?: string;
+  error?: string;
+}
+
+export type ScheduledEmailResult =
+  | { status: 'sent'; gmailMessageId?: string }
+  | { status: 'failed'; reason: string };
+
+// Scheduled emails in SQLite (libsql), so pending sends survive restarts.
+// Email content is encrypted at rest with the token encryption key.
+export class ScheduledEmailQueue {
+  private client: Client;
+  private cipher: TokenCipher;
+  private ready: Promise<void>;
+
+  constructor(url: string) {
+    const masterKey = process.env.TOKEN_ENCRYPTION_KEY;
+    if (!masterKey) {
+      throw new Error('TOKEN_ENCRYPTION_KEY is not set in environment variables');
+    }
+    this.cipher = new TokenCipher(masterKey);
+    this.client = createClient({ url });
+    this.ready = this.client.execute(
+      `CREATE TABLE IF NOT EXISTS scheduled_emails (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        account TEXT,
+        send_at INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        gmail_message_id TEXT,
+        error TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )`
+    ).then(() => undefined);
+  }
+
+  private toScheduledEmail(row: any): ScheduledEmail {
+    const userId = String(row.user_id);
+    return {
+      id: String(row.id),
+      userId,
+      account: row.account ? String(row.account) : undefined,
+      sendAt: Number(row.send_at),
+      status: String(row.status) as ScheduledEmailStatus,
+      content: this.cipher.decrypt(userId, String(row.payload)) as ScheduledEmailContent,
+      gmailMessageId: row.gmail_message_id ? String(row.gmail_message_id) : undefined,
+      error: row.error ? String(row.error) : undefined
+    };
+  }
+
+  async schedule(userId: string, account: string | undefined, content: ScheduledEmailContent, sendAt: number): Promise<ScheduledEmail> {
+    await this.ready;
+    const id = `sch-${crypto.randomBytes(4).toString('hex')}`;
+    const now = Date.now();
+    await this.client.execute({
+      sql: `INSERT INTO scheduled_emails (id, user_id, account, send_at, status, payload, created_at, updated_at)
+            VALUES (?, ?, ?, ?, 'pending', ?, ?, ?)`,
+      args: [id, userId, account ?? null, sendAt, this.cipher.encrypt(userId, content), now, now]
+    });
+    return { id, userId, account, sendAt, status: 'pending', content };
+  }
+
+  async listPending(userId: string): Promise<ScheduledEmail[]> {
+    await this.ready;
+    const result = await this.client.execute({
+      sql: "SELECT * FROM scheduled_emails WHERE user_id = ? AND status = 'pending' ORDER BY send_at",
+      args: [userId]
+    });
+    return result.rows.map(row => this.toScheduledEmail(row));
+  }
+
+  // Only the owner can cancel, and only while the email has not started sending
+  async cancel(userId: string, id: string): Promise<boolean> {
+    await this.ready;
+    const result = await this.client.execute({
+      sql: "UPDATE scheduled_emails SET status = 'cancelled', updated_at = ? WHERE id = ? AND user_id = ? AND status = 'pending'",
+      args: [Date.now(), id, userId]
+    });
+    return result.rowsAffected > 0;
+  }
+
+  // Cancel the user's pending emails from the given accounts (aliases), or from all of
+  // their accounts; used when accounts are disconnected. Returns how many were cancelled.
+  async cancelForAccounts(userId: string, accounts?: string[]): Promise<number> {
+    await this.ready;
+    if (accounts && accounts.length === 0) return 0;
+    const accountFilter = accounts ? ` AND account IN (${accounts.map(() => '?').join(', ')})` : '';
+    const result = await this.client.execute({
+      sql: `UPDATE scheduled_emails SET status = 'cancelled', error = 'Account disconnected', updated_at = ?
+            WHERE user_id = ? AND status = 'pending'${accountFilter}`,
+      args: [Date.now(), userId, ...(accounts || [])]
+    });
+    return result.rowsAffected;
+  }
+
+  // Delete every scheduled email of the user, including their stored content and attachments.
+  // Returns how many were still waiting to be sent.
+  async deleteUser(userId: string): Promise<number> {
+    await this.ready;
+    const pending = await this.client.execute({
+      sql: "SELECT COUNT(*) AS count FROM scheduled_emails WHERE user_id = ? AND status = 'pending'",
+      args: [userId]
+    });
+    await this.client.execute({ sql: 'DELETE FROM scheduled_emails WHERE user_id = ?', args: [userId] });
+    return Number(pending.rows[0].count);
+  }
+
+  // Mark due emails as sending and return them. The status check in the UPDATE
+  // makes each claim atomic, so an email is never handed out twice.
+  async claimDue(now: number): Promise<ScheduledEmail[]> {
+    await this.ready;
+    const due = await this.client.execute({
+      sql: "SELECT id FROM scheduled_emails WHERE status = 'pending' AND send_at <= ? ORDER BY send_at",
+      args: [now]
+    });
+    const claimed: ScheduledEmail[] = [];
+    for (const row of due.rows) {
+      const update = await this.client.execute({
+        sql: "UPDATE scheduled_emails SET status = 'sending', updated_at = ? WHERE id = ? AND status = 'pending'",
+        args: [now, String(row.id)]
+      });
+      if (update.rowsAffected === 0) continue;
+      const result = await this.client.execute({ sql: 'SELECT * FROM scheduled_emails WHERE id = ?', args: [String(row.id)] });
+      claimed.push(this.toScheduledEmail(result.rows[0]));
+    }
+    return claimed;
+  }
+
+  // Emails left in "sending" by a crash may or may not have gone out; fail them rather than risk a double send
+  async failInterrupted(): Promise<ScheduledEmail[]> {
+    await this.ready;
+    const result = await this.client.execute("SELECT * FROM scheduled_emails WHERE status = 'sending'");
+    const interrupted = result.rows.map(row => this.toScheduledEmail(row));
+    for (const email of interrupted) {
+      await this.markFailed(email.id, 'Sending was interrupted by a restart; please check your Sent folder before rescheduling');
+    }
+    return interrupted;
+  }
+
+  async markSent(id: string, gmailMessageId?: string): Promise<void> {
+    await this.ready;
+    await this.client.execute({
+      sql: "UPDATE scheduled_emails SET status = 'sent', gmail_message_id = ?, updated_at = ? WHERE id = ?",
+      args: [gmailMessageId ?? null, Date.now(), id]
+    });
+  }
+
+  async markFailed(id: string, error: string): Promise<void> {
+    await this.ready;
+    await this.client.execute({
+      sql: "UPDATE scheduled_emails SET status = 'failed', error = ?, updated_at = ? WHERE id = ?",
+      args: [error, Date.now(), id]
+    });
+  }
+}
+
+let scheduledEmailQueue: ScheduledEmailQueue | null = null;
+
+export function getScheduledEmailQueue(): ScheduledEmailQueue {
+  if (!scheduledEmailQueue) {
+    scheduledEmailQueue = new ScheduledEmailQueue(SCHEDULED_EMAILS_DB_URL);
+  }
+  return scheduledEmailQueue;
+}
+
+export function composeScheduledEmail(content: ScheduledEmailContent): string {
+  const options: ComposeEmailOptions = {
+    ...content,
+    attachments: (content.attachments || []).map(attachment => ({
+      ...attachment,
+      data: Buffer.from(attachment.data, 'base64')
+    }))
+  };
+  return composeEmail(options);
+}
+
+type ScheduledEmailHandler = (email: ScheduledEmail, result: ScheduledEmailResult) => Promise<void>;
+
+// Sends scheduled emails when they are due and reports each outcome
+export class ScheduledEmailDispatcher {
+  private queue = getScheduledEmailQueue();
+  private running = false;
+
+  constructor(private onResult: ScheduledEmailHandler) {
+    this.queue.failInterrupted()
+      .then(interrupted => Promise.all(interrupted.map(email =>
+        this.onResult(email, { status: 'failed', reason: 'Sending was interrupted by a restart; please check your Sent folder' })
+      )))
+      .catch(error => console.error('Error recovering interrupted scheduled emails:', error));
+    setInterval(() => this.dispatchDue(), DISPATCH_INTERVAL_MS).unref();
+  }
+
+  private async dispatchDue() {
+    // Skip a tick while the previous one is still sending
+    if (this.running) return;
+    this.running = true;
+    try {
+      for (const email of await this.queue.claimDue(Date.now())) {
+        await this.send(email);
+      }
+    } catch (error) {
+      console.error('Error dispatching scheduled emails:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async send(email: ScheduledEmail) {
+    let result: ScheduledEmailResult;
+    try {
+      const gmail = await getGmailService(email.userId, email.account, 'gmail.send');
+      if (!gmail) {
+        throw new Error('Google Authentication required. Please use /connect_google.');
+      }
+      const response = await gmail.users.messages.send({
+        userId: 'me',
+        requestBody: { raw: composeScheduledEmail(email.content) }
+      });
+      await this.queue.markSent(email.id, response.data.id ?? undefined);
+      console.log(`Scheduled email ${email.id} sent for user ${email.userId}`);
+      result = { status: 'sent', gmailMessageId: response.data.id ?? undefined };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to send scheduled email ${email.id} for user ${email.userId}:`, error);
+      await this.queue.markFailed(email.id, reason);
+      result = { status: 'failed', reason };
+    }
+
+    try {
+      await this.onResult(email, result);
+    } catch (error) {
+      console.error(`Error reporting scheduled email ${email.id} result:`, error);
+    }
+  }
+}
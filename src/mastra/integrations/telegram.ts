@@ -3,25 +3,112 @@ import { googleCalendarAgent, gmailAgent, emailCalendarAgent } from "../agents";
 import {
   createOAuth2Client,
   generateAuthUrl,
-  exchangeCodeForToken,
-  getAuthenticatedClient
+  getAuthenticatedClient,
+  disconnectGoogleAccount,
+  listLinkedAccounts,
+  setDefaultAccount,
+  normalizeAccountAlias,
+  isScopeProfile,
+  ScopeProfile,
+  SCOPE_PROFILES
 } from "../integrations/googleAuth";
-
-// Keep track of users who are currently in the process of authenticating
-const awaitingAuthCodeUsers = new Set<number>();
+import { DEFAULT_ACCOUNT_ALIAS } from "./tokenStore";
+import { purgeUserMemory } from "../memory";
+import { OAuthCallbackServer, PendingAuth, AuthResult } from "./oauthCallbackServer";
+import { saveUpload, listUploads, clearUploads, ChatUpload, MAX_UPLOAD_BYTES } from "./telegramUploads";
+import { setDocumentSender, OutgoingDocument } from "./chatDelivery";
+import { setConfirmationPrompter, takeConfirmation } from "./chatConfirmation";
+import { ScheduledEmailDispatcher, ScheduledEmail, ScheduledEmailResult, getScheduledEmailQueue } from "./scheduledEmails";
+import { MailWatcher, MailNotification, NotificationSettings, getNotificationStore, isValidTimeOfDay } from "./mailWatcher";
+import {
+  getUserTimeZone,
+  getUserTimeZoneStore,
+  refreshDetectedTimeZone,
+  isValidTimeZone,
+  formatInTimeZone,
+  formatUtcOffset,
+  zonedParts
+} from "./userTimeZone";
 
 export class TelegramIntegration {
   private bot: TelegramBot;
   private readonly MAX_MESSAGE_LENGTH = 4096; // Telegram's message length limit
   private readonly MAX_RESULT_LENGTH = 500; // Maximum length for tool results
   private userAgents: Map<number, string> = new Map(); // Map of chat IDs to active agent
+  private oauthServer: OAuthCallbackServer;
+  private userChats: Map<string, number> = new Map(); // Map of user IDs to the chat they last wrote from
+  private scheduledEmails: ScheduledEmailDispatcher;
+  private mailWatcher: MailWatcher;
 
   constructor(token: string) {
     this.bot = new TelegramBot(token, { polling: true });
+    this.oauthServer = new OAuthCallbackServer(this.handleAuthComplete.bind(this));
+    this.scheduledEmails = new ScheduledEmailDispatcher(this.handleScheduledEmailResult.bind(this));
+    this.mailWatcher = new MailWatcher(this.handleMailNotifications.bind(this));
     this.bot.on("message", this.handleMessage.bind(this));
+    this.bot.on("callback_query", this.handleCallbackQuery.bind(this));
+    setDocumentSender(this.sendDocument.bind(this));
+    setConfirmationPrompter(this.sendConfirmationPrompt.bind(this));
     this.setupCommands();
   }
 
+  // Deliver a file produced by a tool to the chat the user is currently talking from
+  private async sendDocument(userId: string, document: OutgoingDocument) {
+    const chatId = this.userChats.get(userId);
+    if (chatId === undefined) {
+      throw new Error("No active chat found for this user");
+    }
+    await this.bot.sendDocument(
+      chatId,
+      document.data,
+      { caption: document.caption },
+      { filename: document.filename, contentType: document.mimeType }
+    );
+  }
+
+  // Ask the user to approve an action a tool prepared; only the button press runs it
+  private async sendConfirmationPrompt(userId: string, confirmationId: string, prompt: string) {
+    const chatId = this.userChats.get(userId);
+    if (chatId === undefined) {
+      throw new Error("No active chat found for this user");
+    }
+    await this.bot.sendMessage(chatId, prompt, {
+      reply_markup: {
+        inline_keyboard: [[
+          { text: "✅ Confirm", callback_data: `confirm:${confirmationId}` },
+          { text: "✖️ Cancel", callback_data: `reject:${confirmationId}` }
+        ]]
+      }
+    });
+  }
+
+  // Run or drop a confirmed action and replace the prompt's buttons with the outcome
+  private async handleConfirmation(query: TelegramBot.CallbackQuery, userId: string, confirmationId: string, confirmed: boolean) {
+    const message = query.message;
+    if (!message) return;
+    const confirmation = takeConfirmation(userId, confirmationId);
+    let outcome: string;
+    if (!confirmation) {
+      outcome = "⌛ This request has expired or was already answered. Ask me again if you still want it.";
+    } else if (!confirmed) {
+      outcome = "✖️ Cancelled. Nothing was changed.";
+    } else {
+      try {
+        outcome = `✅ ${await confirmation.run()}`;
+      } catch (error) {
+        console.error(`Confirmed action failed for user ${userId}:`, error);
+        outcome = `❌ ${error instanceof Error ? error.message : "Unknown error"}`;
+      }
+    }
+    await this.bot.editMessageText(`${message.text || ""}\n\n${outcome}`.slice(0, this.MAX_MESSAGE_LENGTH), {
+      chat_id: message.chat.id,
+      message_id: message.message_id
+    }).catch(async error => {
+      console.warn("Could not update confirmation message:", error);
+      await this.bot.sendMessage(message.chat.id, outcome);
+    });
+  }
+
   private async setupCommands() {
     try {
       await this.bot.setMyCommands([
@@ -31,7 +118,27 @@ export class TelegramIntegration {
         },
         {
           command: "connect_google",
-          description: "Connect your Google account (Gmail & Calendar)"
+          description: "Connect a Google account: /connect_google [name] [readonly|triage|full]"
+        },
+        {
+          command: "accounts",
+          description: "List linked Google accounts or pick the default one"
+        },
+        {
+          command: "disconnect_google",
+          description: "Disconnect Google (add an account name, and 'purge' to erase chat memory)"
+        },
+        {
+          command: "scheduled",
+          description: "List scheduled emails or cancel one: /scheduled cancel <id>"
+        },
+        {
+          command: "notify",
+          description: "New-mail alerts: /notify on|off, vip, keyword, label, quiet 22:00-07:00"
+        },
+        {
+          command: "timezone",
+          description: "Show or set your time zone: /timezone Europe/Berlin or /timezone auto"
         },
         {
           command: "gmail",
@@ -258,25 +365,37 @@ export class TelegramIntegration {
     }
   }
 
-  // Initiate Google Authentication Flow
-  private async initiateGoogleAuth(chatId: number, userId: string) {
+  // Initiate Google Authentication Flow. Without a scope profile the user is asked to pick one first.
+  private async initiateGoogleAuth(chatId: number, userId: string, requestedAlias?: string, profile?: ScopeProfile) {
+    const accountAlias = requestedAlias ? normalizeAccountAlias(requestedAlias) : DEFAULT_ACCOUNT_ALIAS;
+    if (!accountAlias) {
+      await this.bot.sendMessage(chatId, "Account names can use up to 32 letters, digits, '-' or '_', e.g. `/connect_google work`.");
+      return;
+    }
+
+    if (!profile) {
+      await this.askForScopeProfile(chatId, accountAlias);
+      return;
+    }
+
     try {
       const oAuth2Client = createOAuth2Client();
-      const authUrl = generateAuthUrl(oAuth2Client);
+      const state = this.oauthServer.createState(userId, chatId, accountAlias, profile);
+      const current = (await listLinkedAccounts(userId)).find(account => account.alias === accountAlias);
+      const authUrl = generateAuthUrl(oAuth2Client, state, profile, current?.profile ?? null);
 
       await this.bot.sendMessage(chatId, 
-        `To use Google services, please authorize this application:\n\n` +
+        `To use Google services, please authorize this application` +
+        (requestedAlias ? ` for your <b>${this.escapeHtml(accountAlias)}</b> account` : ``) +
+        ` with <b>${SCOPE_PROFILES[profile].label}</b> access:\n\n` +
         `1. Click this link: ${authUrl}\n` +
         `2. Approve the permissions.\n` +
-        `3. You'll be redirected to a page showing a code. Copy that code.\n` +
-        `4. Paste the code back here in this chat.\n\n` +
-        `<b>Important:</b> This code is sensitive, treat it like a password.`, 
+        `3. You'll be sent back automatically and I'll confirm here once the connection works.\n\n` +
+        `<b>Important:</b> The link is personal to you and expires in 10 minutes. Don't share it.`, 
         { parse_mode: "HTML" }
       );
       
-      // Mark user as awaiting the code
-      awaitingAuthCodeUsers.add(chatId);
-      console.log(`Auth URL sent to user ${userId} (chatId: ${chatId}), awaiting code.`);
+      console.log(`Auth URL sent to user ${userId} (chatId: ${chatId}, account: ${accountAlias}, profile: ${profile}), awaiting callback.`);
       
     } catch (error) {
       console.error("Error initiating Google Auth:", error);
@@ -284,10 +403,433 @@ export class TelegramIntegration {
     }
   }
 
+  private async askForScopeProfile(chatId: number, accountAlias: string) {
+    const profiles = Object.keys(SCOPE_PROFILES) as ScopeProfile[];
+    await this.bot.sendMessage(chatId,
+      `🔐 <b>How much access should I have?</b>\n\n` +
+      profiles.map(profile => `• <b>${SCOPE_PROFILES[profile].label}</b> - ${SCOPE_PROFILES[profile].description}`).join("\n") +
+      `\n\nYou can upgrade later by connecting the same account again with a wider profile.`,
+      {
+        parse_mode: "HTML",
+        reply_markup: {
+          inline_keyboard: [profiles.map(profile => ({
+            text: SCOPE_PROFILES[profile].label,
+            callback_data: `connect:${profile}:${accountAlias}`
+          }))]
+        }
+      }
+    );
+  }
+
+  // Inline keyboard button presses
+  private async handleCallbackQuery(query: TelegramBot.CallbackQuery) {
+    const chatId = query.message?.chat.id;
+    const userId = query.from.id.toString();
+    const [action, ...params] = (query.data || "").split(":");
+
+    await this.bot.answerCallbackQuery(query.id).catch(error =>
+      console.warn("Could not answer callback query:", error)
+    );
+    if (!chatId) {
+      return;
+    }
+    if ((action === "confirm" || action === "reject") && params[0]) {
+      await this.handleConfirmation(query, userId, params[0], action === "confirm");
+      return;
+    }
+    if (action === "cancel_scheduled" && params[0]) {
+      await this.manageScheduledEmails(chatId, userId, ["cancel", params[0]]);
+      return;
+    }
+    const [profile, accountAlias] = params;
+    if (action !== "connect" || !accountAlias || !isScopeProfile(profile)) {
+      return;
+    }
+    await this.initiateGoogleAuth(chatId, userId, accountAlias === DEFAULT_ACCOUNT_ALIAS ? undefined : accountAlias, profile);
+  }
+
+  // List linked accounts, or make one the default with "/accounts default <name>"
+  private async manageAccounts(chatId: number, userId: string, args: string[]) {
+    try {
+      if (args[0] === "default" && args[1]) {
+        const linked = await setDefaultAccount(userId, args[1]);
+        await this.bot.sendMessage(chatId,
+          `✅ <b>${this.escapeHtml(linked.alias)}</b>${linked.email ? ` (${this.escapeHtml(linked.email)})` : ""} is now your default Google account.`,
+          { parse_mode: "HTML" }
+        );
+        return;
+      }
+
+      const accounts = await listLinkedAccounts(userId);
+      if (accounts.length === 0) {
+        await this.bot.sendMessage(chatId, "No Google account is connected yet. Use `/connect_google` (or `/connect_google work`) to link one.");
+        return;
+      }
+      const lines = accounts.map(account =>
+        `• <b>${this.escapeHtml(account.alias)}</b>${account.email ? ` - ${this.escapeHtml(account.email)}` : ""}` +
+        ` [${account.profile ? SCOPE_PROFILES[account.profile].label : "Limited"}]${account.isDefault ? " (default)" : ""}`
+      );
+      await this.bot.sendMessage(chatId,
+        `🔑 <b>Linked Google accounts</b>\n\n${lines.join("\n")}\n\n` +
+        `Use <code>/accounts default &lt;name&gt;</code> to change the default, or <code>/connect_google &lt;name&gt;</code> to link another account.`,
+        { parse_mode: "HTML" }
+      );
+    } catch (error) {
+      console.error(`Error managing accounts for user ${userId}:`, error);
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await this.bot.sendMessage(chatId, `❌ ${this.escapeHtml(message)}`, { parse_mode: "HTML" });
+    }
+  }
+
+  private formatDateTime(timestamp: number, timeZone: string): string {
+    return new Date(timestamp).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short", timeZone });
+  }
+
+  // Show the user's time zone, set it ("/timezone Europe/Berlin") or take it from Google again ("/timezone auto")
+  private async manageTimeZone(chatId: number, userId: string, args: string[]) {
+    const store = getUserTimeZoneStore();
+    try {
+      const [value] = args;
+      if (value?.toLowerCase() === "auto") {
+        await store.delete(userId);
+        const detected = await refreshDetectedTimeZone(userId);
+        await this.bot.sendMessage(chatId,
+          detected
+            ? `🌍 Time zone taken from your Google Calendar: <b>${this.escapeHtml(detected)}</b>`
+            : `⚠️ I couldn't read a time zone from Google Calendar. Set it with <code>/timezone Europe/Berlin</code>.`,
+          { parse_mode: "HTML" }
+        );
+        return;
+      }
+      if (value) {
+        if (!isValidTimeZone(value)) {
+          await this.bot.sendMessage(chatId,
+            `⚠️ <code>${this.escapeHtml(value)}</code> is not a time zone I know. Use an IANA name such as <code>Europe/Berlin</code> or <code>America/New_York</code>.`,
+            { parse_mode: "HTML" }
+          );
+          return;
+        }
+        await store.set(userId, value, "user");
+      }
+
+      const timeZone = await getUserTimeZone(userId);
+      const stored = await store.get(userId);
+      const source = stored?.source === "user" ? "set by you"
+        : stored?.source === "google" ? "from your Google Calendar"
+        : "default, as your Google Calendar's couldn't be read";
+      await this.bot.sendMessage(chatId,
+        `🌍 Your time zone: <b>${this.escapeHtml(timeZone)}</b> (${source}, UTC${formatUtcOffset(new Date(), timeZone)})\n` +
+        `Local time: ${this.escapeHtml(formatInTimeZone(new Date(), timeZone))}\n\n` +
+        `Change it with <code>/timezone Europe/Berlin</code>, or <code>/timezone auto</code> to use your Google Calendar's.`,
+        { parse_mode: "HTML" }
+      );
+    } catch (error) {
+      console.error(`Error managing time zone for user ${userId}:`, error);
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await this.bot.sendMessage(chatId, `❌ ${this.escapeHtml(message)}`, { parse_mode: "HTML" });
+    }
+  }
+
+  // List pending scheduled emails with cancel buttons, or cancel one with "/scheduled cancel <id>"
+  private async manageScheduledEmails(chatId: number, userId: string, args: string[]) {
+    const queue = getScheduledEmailQueue();
+    try {
+      if (args[0] === "cancel" && args[1]) {
+        const cancelled = await queue.cancel(userId, args[1]);
+        await this.bot.sendMessage(chatId,
+          cancelled
+            ? `🗑️ Scheduled email <code>${this.escapeHtml(args[1])}</code> cancelled.`
+            : `⚠️ No pending scheduled email <code>${this.escapeHtml(args[1])}</code> found. It may have been sent or cancelled already.`,
+          { parse_mode: "HTML" }
+        );
+        return;
+      }
+
+      const pending = await queue.listPending(userId);
+      const timeZone = await getUserTimeZone(userId);
+      if (pending.length === 0) {
+        await this.bot.sendMessage(chatId, "📭 You have no scheduled emails. Ask me to send an email later to schedule one.");
+        return;
+      }
+      const lines = pending.map(email =>
+        `• <code>${email.id}</code> - ${this.formatDateTime(email.sendAt, timeZone)}\n` +
+        `  <b>${this.escapeHtml(email.content.subject || "(No Subject)")}</b> to ${this.escapeHtml(email.content.to)}` +
+        `${email.account ? ` (from ${this.escapeHtml(email.account)})` : ""}`
+      );
+      await this.bot.sendMessage(chatId,
+        `🕒 <b>Scheduled emails</b>\n\n${lines.join("\n")}`,
+        {
+          parse_mode: "HTML",
+          reply_markup: {
+            inline_keyboard: pending.map(email => [{
+              text: `Cancel "${this.truncateString(email.content.subject || email.id, 30)}"`,
+              callback_data: `cancel_scheduled:${email.id}`
+            }])
+          }
+        }
+      );
+    } catch (error) {
+      console.error(`Error managing scheduled emails for user ${userId}:`, error);
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await this.bot.sendMessage(chatId, `❌ ${this.escapeHtml(message)}`, { parse_mode: "HTML" });
+    }
+  }
+
+  // Called by the dispatcher after each scheduled email is sent or fails
+  private async handleScheduledEmailResult(email: ScheduledEmail, result: ScheduledEmailResult) {
+    // In private chats the chat ID is the user ID, which still works after a restart
+    const chatId = this.userChats.get(email.userId) ?? Number(email.userId);
+    const subject = this.escapeHtml(email.content.subject || "(No Subject)");
+    const recipients = this.escapeHtml(email.content.to);
+    if (result.status === "sent") {
+      await this.bot.sendMessage(chatId, `📤 Scheduled email <b>${subject}</b> to ${recipients} was sent.`, { parse_mode: "HTML" });
+    } else {
+      await this.bot.sendMessage(chatId,
+        `❌ Scheduled email <b>${subject}</b> to ${recipients} could not be sent: ${this.escapeHtml(result.reason)}`,
+        { parse_mode: "HTML" }
+      );
+    }
+  }
+
+  private formatNotificationSettings(settings: NotificationSettings): string {
+    const list = (values: string[]) => values.length > 0 ? values.map(value => this.escapeHtml(value)).join(", ") : "<i>none</i>";
+    return `🔔 <b>New-mail notifications: ${settings.enabled ? "on" : "off"}</b>\n\n` +
+      `• VIP senders: ${list(settings.rules.vipSenders)}\n` +
+      `• Labels: ${list(settings.rules.labels)}\n` +
+      `• Keywords: ${list(settings.rules.keywords)}\n` +
+      `• Quiet hours: ${settings.quietHours ? `${settings.quietHours.start}-${settings.quietHours.end} (your time zone, see /timezone)` : "<i>none</i>"}\n\n` +
+      `Change them with <code>/notify on|off</code>, <code>/notify vip boss@example.com</code> (or <code>@example.com</code>), ` +
+      `<code>/notify keyword invoice</code>, <code>/notify label Clients</code>, <code>/notify remove &lt;value&gt;</code> ` +
+      `and <code>/notify quiet 22:00-07:00</code> (<code>/notify quiet off</code>).`;
+  }
+
+  // Show or change new-mail notification settings
+  private async manageNotifications(chatId: number, userId: string, args: string[]) {
+    const store = getNotificationStore();
+    try {
+      const settings = await store.getSettings(userId);
+      const [subcommand, ...rest] = args;
+      const value = rest.join(" ").trim();
+
+      switch (subcommand?.toLowerCase()) {
+        case undefined:
+          break;
+        case "on":
+          settings.enabled = true;
+          break;
+        case "off":
+          settings.enabled = false;
+          // Start fresh when turned back on instead of replaying everything missed meanwhile
+          await store.clearCursors(userId);
+          break;
+        case "vip":
+        case "keyword":
+        case "label": {
+          if (!value) {
+            await this.bot.sendMessage(chatId, `Please give a value, e.g. <code>/notify ${subcommand} ${subcommand === "vip" ? "boss@example.com" : subcommand === "label" ? "Clients" : "invoice"}</code>`, { parse_mode: "HTML" });
+            return;
+          }
+          const list = subcommand === "vip" ? settings.rules.vipSenders : subcommand === "label" ? settings.rules.labels : settings.rules.keywords;
+          if (!list.some(existing => existing.toLowerCase() === value.toLowerCase())) list.push(value);
+          break;
+        }
+        case "remove": {
+          const keep = (existing: string) => existing.toLowerCase() !== value.toLowerCase();
+          settings.rules = {
+            vipSenders: settings.rules.vipSenders.filter(keep),
+            labels: settings.rules.labels.filter(keep),
+            keywords: settings.rules.keywords.filter(keep)
+          };
+          break;
+        }
+        case "quiet": {
+          if (value === "off") {
+            delete settings.quietHours;
+            break;
+          }
+          const [start, end] = value.split("-").map(part => part.trim());
+          if (!start || !end || !isValidTimeOfDay(start) || !isValidTimeOfDay(end)) {
+            await this.bot.sendMessage(chatId, "Please give quiet hours as <code>/notify quiet 22:00-07:00</code>, or <code>/notify quiet off</code>.", { parse_mode: "HTML" });
+            return;
+          }
+          settings.quietHours = { start, end };
+          break;
+        }
+        default:
+          await this.bot.sendMessage(chatId, this.formatNotificationSettings(settings), { parse_mode: "HTML" });
+          return;
+      }
+
+      if (subcommand) await store.setSettings(userId, settings);
+      const hasRules = settings.rules.vipSenders.length + settings.rules.labels.length + settings.rules.keywords.length > 0;
+      const hint = settings.enabled && !hasRules
+        ? "\n\n⚠️ No rules yet, so nothing will be announced. Add a VIP sender, label or keyword."
+        : "";
+      await this.bot.sendMessage(chatId, this.formatNotificationSettings(settings) + hint, { parse_mode: "HTML" });
+    } catch (error) {
+      console.error(`Error managing notifications for user ${userId}:`, error);
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await this.bot.sendMessage(chatId, `❌ ${this.escapeHtml(message)}`, { parse_mode: "HTML" });
+    }
+  }
+
+  // Called by the mail watcher with new emails that matched the user's rules
+  private async handleMailNotifications(userId: string, notifications: MailNotification[], heldDuringQuietHours: boolean) {
+    const chatId = this.userChats.get(userId) ?? Number(userId);
+    const linkedAccounts = await listLinkedAccounts(userId);
+    const showAccount = linkedAccounts.length > 1;
+    const entries = notifications.map(notification =>
+      `📧 <b>${this.escapeHtml(notification.subject)}</b>\n` +
+      `From: ${this.escapeHtml(notification.from)}${showAccount ? ` (to ${this.escapeHtml(notification.account)})` : ""}\n` +
+      `<i>${this.escapeHtml(this.truncateString(notification.snippet, 200))}</i>\n` +
+      `Matched ${this.escapeHtml(notification.reason)}`
+    );
+    const header = heldDuringQuietHours
+      ? `🌙 <b>${notifications.length} email(s) arrived during quiet hours</b>`
+      : `🔔 <b>New email${notifications.length > 1 ? "s" : ""}</b>`;
+    await this.updateOrSplitMessage(chatId, undefined, `${header}\n\n${entries.join("\n\n")}`);
+  }
+
+  // Called by the OAuth callback server once Google redirects back
+  private async handleAuthComplete(pending: PendingAuth, result: AuthResult) {
+    try {
+      switch (result.status) {
+        case "connected":
+          await refreshDetectedTimeZone(pending.userId).catch(error =>
+            console.error(`Error detecting time zone for user ${pending.userId}:`, error)
+          );
+          // Report what Google granted: the user may have unticked some permissions
+          await this.bot.sendMessage(pending.chatId,
+            result.grantedProfile
+              ? `✅ Google account connected successfully with ${SCOPE_PROFILES[result.grantedProfile].label} access! ` +
+                `You can now use Gmail and Calendar features.` +
+                (result.grantedProfile !== pending.scopeProfile ? ` (You asked for ${SCOPE_PROFILES[pending.scopeProfile].label}, but not all of its permissions were granted.)` : ``)
+              : `⚠️ Google account connected, but with too few permissions to read mail and calendars. ` +
+                `Use \`/connect_google\` again and approve all the permissions shown.`
+          );
+          break;
+        case "denied":
+          await this.bot.sendMessage(pending.chatId, "⚠️ Google sign-in was cancelled. Use `/connect_google` whenever you want to try again.");
+          break;
+        case "failed":
+          await this.bot.sendMessage(pending.chatId, "❌ Failed to connect Google account. Please try `/connect_google` again.");
+          break;
+      }
+    } catch (error) {
+      console.error(`Error notifying chat ${pending.chatId} about Google auth:`, error);
+    }
+  }
+
+  // Revoke the user's Google grant(s), delete stored tokens and optionally wipe agent memory
+  private async disconnectGoogle(chatId: number, userId: string, account: string | undefined, purgeMemory: boolean) {
+    const summary: string[] = [];
+    let disconnected: { alias: string; email?: string; revoked: boolean }[];
+    try {
+      disconnected = await disconnectGoogleAccount(userId, account);
+      if (disconnected.length === 0) {
+        summary.push("• No Google account was connected");
+      }
+      for (const result of disconnected) {
+        const label = `<b>${this.escapeHtml(result.alias)}</b>${result.email ? ` (${this.escapeHtml(result.email)})` : ""}`;
+        summary.push(result.revoked
+          ? `• ${label}: Google access revoked and stored tokens deleted`
+          : `• ${label}: stored tokens deleted, but Google did not confirm the revocation; you can also remove access at https://myaccount.google.com/permissions`);
+      }
+    } catch (error) {
+      console.error(`Error disconnecting Google account for user ${userId}:`, error);
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await this.bot.sendMessage(chatId, `❌ Failed to disconnect your Google account: ${this.escapeHtml(message)}`, { parse_mode: "HTML" });
+      return;
+    }
+
+    if (!account) {
+      await getNotificationStore().clearCursors(userId).catch(error =>
+        console.error(`Error clearing mail history cursors for user ${userId}:`, error)
+      );
+    }
+
+    // Pending emails could no longer be sent from a disconnected account; a purge also
+    // deletes the stored content and attachments of every scheduled email
+    try {
+      const queue = getScheduledEmailQueue();
+      const cancelled = purgeMemory
+        ? await queue.deleteUser(userId)
+        : await queue.cancelForAccounts(userId, account ? disconnected.map(result => result.alias) : undefined);
+      if (cancelled > 0) summary.push(`• ${cancelled} scheduled email(s) cancelled`);
+    } catch (error) {
+      console.error(`Error cancelling scheduled emails for user ${userId}:`, error);
+      summary.push("• Scheduled emails could not be cancelled; check <code>/scheduled</code>");
+    }
+
+    if (purgeMemory) {
+      clearUploads(userId);
+      await getNotificationStore().deleteUser(userId).catch(error =>
+        console.error(`Error deleting notification settings for user ${userId}:`, error)
+      );
+      await getUserTimeZoneStore().delete(userId).catch(error =>
+        console.error(`Error deleting time zone for user ${userId}:`, error)
+      );
+      try {
+        const { threads, messages, embeddings } = await purgeUserMemory(userId);
+        summary.push(`• Conversation memory erased: ${threads} thread(s), ${messages} message(s), ${embeddings} search embedding(s)`);
+      } catch (error) {
+        console.error(`Error purging memory for user ${userId}:`, error);
+        summary.push("• Conversation memory could not be erased, please try again");
+      }
+    } else {
+      summary.push("• Conversation memory kept (use <code>/disconnect_google purge</code> to erase it)");
+    }
+
+    await this.bot.sendMessage(chatId, `🔌 <b>Google disconnected</b>\n\n${summary.join("\n")}`, { parse_mode: "HTML" });
+  }
+
+  private formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  // Download a document or photo sent to the chat so it can be attached to an email
+  private async receiveUpload(chatId: number, userId: string, msg: TelegramBot.Message): Promise<ChatUpload | null> {
+    let fileId: string;
+    let filename: string;
+    let mimeType: string;
+    let fileSize: number | undefined;
+    if (msg.document) {
+      fileId = msg.document.file_id;
+      filename = msg.document.file_name || `file-${msg.message_id}`;
+      mimeType = msg.document.mime_type || "application/octet-stream";
+      fileSize = msg.document.file_size;
+    } else if (msg.photo && msg.photo.length > 0) {
+      // Telegram sends several sizes of the same photo; keep the largest
+      const photo = msg.photo[msg.photo.length - 1];
+      fileId = photo.file_id;
+      filename = `photo-${msg.message_id}.jpg`;
+      mimeType = "image/jpeg";
+      fileSize = photo.file_size;
+    } else {
+      return null;
+    }
+
+    if (fileSize && fileSize > MAX_UPLOAD_BYTES) {
+      await this.bot.sendMessage(chatId, `⚠️ ${this.escapeHtml(filename)} is larger than ${this.formatFileSize(MAX_UPLOAD_BYTES)} and can't be attached.`, { parse_mode: "HTML" });
+      return null;
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of this.bot.getFileStream(fileId)) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    const upload = saveUpload(userId, filename, mimeType, Buffer.concat(chunks));
+    console.log(`Stored upload ${upload.id} (${upload.size} bytes) for user ${userId}`);
+    return upload;
+  }
+
   // Handle incoming messages
   private async handleMessage(msg: TelegramBot.Message) {
     const chatId = msg.chat.id;
-    const text = msg.text;
+    // Files arrive with an optional caption instead of text
+    const text = msg.text ?? msg.caption;
     // Use msg.from.id as the stable, unique user identifier
     const userId = msg.from?.id?.toString();
 
@@ -298,32 +840,17 @@ export class TelegramIntegration {
       return;
     }
 
+    this.userChats.set(userId, chatId);
+
     const username = msg.from?.username || "unknown";
     const firstName = msg.from?.first_name || "unknown";
     const timestamp = new Date(msg.date ? msg.date * 1000 : Date.now());
-    const formattedDate = timestamp.toISOString().split("T")[0];
-    const formattedTime = timestamp.toTimeString().split(" ")[0];
 
     console.log(`Received message: "${text}" from user ${userId} (chat ${chatId})`);
 
-    // Check if user is sending back an authorization code
-    if (awaitingAuthCodeUsers.has(chatId) && text && text.length > 20) { // Basic check for code format
-      console.log(`Received potential auth code from user ${userId} (chat ${chatId})`);
-      awaitingAuthCodeUsers.delete(chatId); // Stop listening for code
-
-      const oAuth2Client = createOAuth2Client();
-      const success = await exchangeCodeForToken(oAuth2Client, text, userId);
-
-      if (success) {
-        await this.bot.sendMessage(chatId, "✅ Google account connected successfully! You can now use Gmail and Calendar features.");
-      } else {
-        await this.bot.sendMessage(chatId, "❌ Failed to connect Google account. The code might be invalid or expired. Please try `/connect_google` again.");
-      }
-      return; 
-    }
-
     if (text?.startsWith('/')) {
-      switch (text) {
+      const [command, ...commandArgs] = text.trim().split(/\s+/);
+      switch (command) {
         case "/start":
           await this.bot.sendMessage(
             chatId,
@@ -341,8 +868,31 @@ export class TelegramIntegration {
           );
           this.userAgents.set(chatId, "gmailAgent");
           return;
-        case "/connect_google":
-          await this.initiateGoogleAuth(chatId, userId);
+        case "/connect_google": {
+          const requestedProfile = commandArgs.map(arg => arg.toLowerCase()).find(isScopeProfile);
+          const requestedAlias = commandArgs.find(arg => !isScopeProfile(arg.toLowerCase()));
+          await this.initiateGoogleAuth(chatId, userId, requestedAlias, requestedProfile);
+          return;
+        }
+        case "/accounts":
+          await this.manageAccounts(chatId, userId, commandArgs);
+          return;
+        case "/disconnect_google":
+          await this.disconnectGoogle(
+            chatId,
+            userId,
+            commandArgs.find(arg => arg !== "purge"),
+            commandArgs.includes("purge")
+          );
+          return;
+        case "/scheduled":
+          await this.manageScheduledEmails(chatId, userId, commandArgs);
+          return;
+        case "/notify":
+          await this.manageNotifications(chatId, userId, commandArgs);
+          return;
+        case "/timezone":
+          await this.manageTimeZone(chatId, userId, commandArgs);
           return;
         case "/gmail":
           this.userAgents.set(chatId, "gmailAgent");
@@ -373,7 +923,12 @@ export class TelegramIntegration {
             chatId,
             `🔍 <b>Available Commands:</b>\n\n` +
               `• <code>/start</code> - Initialize the bot\n` +
-              `• <code>/connect_google</code> - Connect your Google Account\n` +
+              `• <code>/connect_google [name] [readonly|triage|full]</code> - Connect a Google Account, e.g. <code>/connect_google work readonly</code>\n` +
+              `• <code>/accounts</code> - List linked Google accounts (<code>/accounts default &lt;name&gt;</code> picks the default)\n` +
+              `• <code>/disconnect_google [name]</code> - Revoke access and remove Google tokens for one or all accounts (add <code>purge</code> to also erase conversation memory)\n` +
+              `• <code>/scheduled</code> - List scheduled emails (<code>/scheduled cancel &lt;id&gt;</code> cancels one)\n` +
+              `• <code>/notify</code> - New-mail notifications for VIP senders, labels and keywords, with quiet hours\n` +
+              `• <code>/timezone [zone|auto]</code> - Show or set your time zone, used for scheduling and times I show you\n` +
               `• <code>/gmail</code> - Switch to Gmail Manager\n` +
               `• <code>/calendar</code> - Switch to Calendar Manager\n` +
               `• <code>/assistant</code> - Switch to Combined Assistant\n` +
@@ -388,6 +943,23 @@ export class TelegramIntegration {
       }
     }
 
+    if (msg.document || msg.photo) {
+      try {
+        const upload = await this.receiveUpload(chatId, userId, msg);
+        if (upload && !text) {
+          await this.bot.sendMessage(
+            chatId,
+            `📎 Got <b>${this.escapeHtml(upload.filename)}</b> (${this.formatFileSize(upload.size)}). Tell me who to email it to and I'll attach it.`,
+            { parse_mode: "HTML" }
+          );
+        }
+      } catch (error) {
+        console.error(`Failed to download upload for user ${userId}:`, error);
+        await this.bot.sendMessage(chatId, "❌ I couldn't download that file. Please try sending it again.");
+        return;
+      }
+    }
+
     if (!text) {
 
       return;
@@ -414,13 +986,40 @@ export class TelegramIntegration {
 
       const activeAgent = this.getActiveAgent(chatId);
 
-      // Stream response, passing userId in the context
-      // The agent instructions should guide it to use the userId from context for tool calls
+      // Let the agent map "my work inbox" etc. onto the user's own linked account aliases
+      const linkedAccounts = await listLinkedAccounts(userId);
+      const accountsContext = linkedAccounts.length > 0
+        ? `\nLinked Google accounts (pass the name as 'account' to target one): ` +
+          linkedAccounts.map(account =>
+            `${account.alias}${account.email ? ` <${account.email}>` : ""} [${account.profile ? `${account.profile} access` : "limited access"}]${account.isDefault ? " (default)" : ""}`
+          ).join(", ") +
+          `\nOnly use tools the account's access allows: readonly accounts cannot change or send anything, triage accounts can write drafts but cannot send mail.`
+        : "";
+
+      // Date and time in the user's own zone, so "tomorrow at 9" means their 9 o'clock
+      const timeZone = await getUserTimeZone(userId);
+      const local = zonedParts(timestamp, timeZone);
+      const pad = (value: number) => String(value).padStart(2, "0");
+      const formattedDate = `${local.year}-${pad(local.month)}-${pad(local.day)} (${timestamp.toLocaleDateString("en-US", { weekday: "long", timeZone })})`;
+      const formattedTime = `${pad(local.hour)}:${pad(local.minute)}:${pad(local.second)}`;
+      const timeContext = `Current date: ${formattedDate}\nCurrent time: ${formattedTime}\n` +
+        `User's time zone: ${timeZone} (currently UTC${formatUtcOffset(timestamp, timeZone)}). Interpret times the user mentions in this zone, ` +
+        `give ISO 8601 times with this zone's offset on that date, and show times to the user in this zone.`;
+
+      // Files sent to the chat can be attached to outgoing emails by ID
+      const uploads = listUploads(userId);
+      const uploadsContext = uploads.length > 0
+        ? `\nFiles the user uploaded to this chat (pass IDs as 'attachmentIds' to attach them): ` +
+          uploads.map(upload => `${upload.id} ${upload.filename} (${upload.mimeType}, ${this.formatFileSize(upload.size)})`).join(", ")
+        : "";
+
+      // Stream response. Tools read the sender from resourceId, so the model
+      // never sees or chooses which user's Google account it acts on.
       const stream = await activeAgent.stream(text, {
         threadId: `telegram-${userId}`, // Use userId for thread consistency
-        resourceId: userId, // Explicitly pass userId as resource if needed by framework
+        resourceId: userId, // Tools resolve the Google account from this, never from model input
         context: [
-          { role: "system", content: `Current user ID: ${userId}\nCurrent date: ${formattedDate}\nCurrent time: ${formattedTime}` },
+          { role: "system", content: `${timeContext}${accountsContext}${uploadsContext}` },
         ]
       });
 
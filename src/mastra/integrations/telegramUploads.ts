@@ -0,0 +1,64 @@
+import * as crypto from 'crypto';
+
+// Telegram bots can only download files up to 20 MB
+export const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+// Uploads are kept in memory only, long enough to ask the assistant to attach them
+const UPLOAD_TTL_MS = 60 * 60 * 1000;
+const MAX_UPLOADS_PER_USER = 10;
+
+export interface ChatUpload {
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  data: Buffer;
+  receivedAt: number;
+}
+
+// Files each Telegram user has sent to the chat, keyed by user ID
+const uploadsByUser: Map<string, ChatUpload[]> = new Map();
+
+function liveUploads(userId: string): ChatUpload[] {
+  const cutoff = Date.now() - UPLOAD_TTL_MS;
+  const uploads = (uploadsByUser.get(userId) || []).filter(upload => upload.receivedAt >= cutoff);
+  if (uploads.length > 0) {
+    uploadsByUser.set(userId, uploads);
+  } else {
+    uploadsByUser.delete(userId);
+  }
+  return uploads;
+}
+
+export function saveUpload(userId: string, filename: string, mimeType: string, data: Buffer): ChatUpload {
+  const upload: ChatUpload = {
+    id: `upload-${crypto.randomBytes(3).toString('hex')}`,
+    filename,
+    mimeType,
+    size: data.length,
+    data,
+    receivedAt: Date.now()
+  };
+  // Drop the oldest uploads beyond the per-user limit
+  uploadsByUser.set(userId, [...liveUploads(userId), upload].slice(-MAX_UPLOADS_PER_USER));
+  return upload;
+}
+
+export function listUploads(userId: string): ChatUpload[] {
+  return liveUploads(userId);
+}
+
+// Look up uploads by ID for one user only; IDs from another user's chat never resolve
+export function getUploads(userId: string, ids: string[]): ChatUpload[] {
+  const uploads = liveUploads(userId);
+  return ids.map(id => {
+    const upload = uploads.find(candidate => candidate.id === id);
+    if (!upload) {
+      throw new Error(`Uploaded file ${id} was not found or has expired. Please send it to the chat again.`);
+    }
+    return upload;
+  });
+}
+
+export function clearUploads(userId: string) {
+  uploadsByUser.delete(userId);
+}
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TokenCipher, EncryptedFileTokenStore, UserAccounts } from './tokenStore';
+
+const MASTER_KEY = 'test-master-key-0123456789';
+
+describe('TokenCipher', () => {
+  const cipher = new TokenCipher(MASTER_KEY);
+  const record = { access_token: 'ya29.token', refresh_token: '1//refresh', expiry_date: 1790000000000 };
+
+  it('decrypts what it encrypted for the same user', () => {
+    const payload = cipher.encrypt('1001', record);
+    assert.ok(!payload.includes('refresh'), 'payload is not encrypted');
+    assert.deepEqual(cipher.decrypt('1001', payload), record);
+  });
+
+  it('uses a fresh IV for every record', () => {
+    assert.notEqual(cipher.encrypt('1001', record), cipher.encrypt('1001', record));
+  });
+
+  it("refuses a record moved onto another user's slot", () => {
+    const payload = cipher.encrypt('1001', record);
+    assert.throws(() => cipher.decrypt('1002', payload));
+  });
+
+  it('refuses tampered records and other keys', () => {
+    const [iv, tag, ciphertext] = cipher.encrypt('1001', record).split('.');
+    const flipped = Buffer.from(ciphertext, 'base64');
+    flipped[0] ^= 1;
+    assert.throws(() => cipher.decrypt('1001', [iv, tag, flipped.toString('base64')].join('.')));
+    assert.throws(() => cipher.decrypt('1001', `${iv}.${tag}`), /Malformed/);
+    assert.throws(() => new TokenCipher('another-master-key-987').decrypt('1001', cipher.encrypt('1001', record)));
+  });
+
+  it('rejects short master keys', () => {
+    assert.throws(() => new TokenCipher('too-short'), /at least 16 characters/);
+  });
+});
+
+describe('EncryptedFileTokenStore', () => {
+  it('keeps one encrypted file per user', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'token-store-'));
+    try {
+      const store = new EncryptedFileTokenStore(dir, new TokenCipher(MASTER_KEY));
+      const accounts: UserAccounts = {
+        defaultAlias: 'work',
+        accounts: { work: { alias: 'work', email: 'ana@example.com', tokens: { refresh_token: '1//refresh' } } }
+      };
+      await store.set('1001', accounts);
+
+      assert.deepEqual(await store.get('1001'), accounts);
+      assert.equal(await store.get('1002'), null);
+      assert.deepEqual(await store.listUserIds(), ['1001']);
+      assert.ok(!fs.readFileSync(path.join(dir, '1001.enc'), 'utf-8').includes('ana@example.com'));
+
+      await store.delete('1001');
+      assert.equal(await store.get('1001'), null);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reads records from before multiple accounts as the default account', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'token-store-'));
+    try {
+      const cipher = new TokenCipher(MASTER_KEY);
+      fs.writeFileSync(path.join(dir, '1001.enc'), cipher.encrypt('1001', { refresh_token: '1//refresh' }));
+      const store = new EncryptedFileTokenStore(dir, cipher);
+
+      assert.deepEqual(await store.get('1001'), {
+        defaultAlias: 'default',
+        accounts: { default: { alias: 'default', tokens: { refresh_token: '1//refresh' } } }
+      });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
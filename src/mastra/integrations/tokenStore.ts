@@ -0,0 +1,213 @@
+import { Credentials } from 'google-auth-library';
+import { createClient, Client } from '@libsql/client';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const DEFAULT_ACCOUNT_ALIAS = 'default';
+
+// One Google account linked by a Telegram user, under a user-chosen alias such as "work"
+export interface LinkedAccount {
+  alias: string;
+  email?: string;
+  tokens: Credentials;
+}
+
+// Everything stored for one Telegram user: their linked accounts and which one tools use by default
+export interface UserAccounts {
+  defaultAlias: string;
+  accounts: { [alias: string]: LinkedAccount };
+}
+
+// Storage for per-user Google OAuth tokens. Every backend encrypts tokens at rest
+// and writes one user at a time, so a refresh for one user never rewrites another's.
+export interface TokenStore {
+  get(userId: string): Promise<UserAccounts | null>;
+  set(userId: string, accounts: UserAccounts): Promise<void>;
+  delete(userId: string): Promise<void>;
+  listUserIds(): Promise<string[]>;
+}
+
+// Records written before multiple accounts were supported hold bare credentials;
+// treat those as the user's single default account.
+function normalizeUserAccounts(record: any): UserAccounts {
+  if (record && typeof record.accounts === 'object' && typeof record.defaultAlias === 'string') {
+    return record;
+  }
+  return {
+    defaultAlias: DEFAULT_ACCOUNT_ALIAS,
+    accounts: { [DEFAULT_ACCOUNT_ALIAS]: { alias: DEFAULT_ACCOUNT_ALIAS, tokens: record } }
+  };
+}
+
+const CIPHER_ALGORITHM = 'aes-256-gcm';
+const KEY_SALT = 'gmail-n-calendar-bot/token-store';
+
+// AES-256-GCM wrapper keyed from the TOKEN_ENCRYPTION_KEY master key.
+// The user ID is bound as additional authenticated data, so a record copied
+// onto another user's slot fails to decrypt instead of granting access.
+export class TokenCipher {
+  private key: Buffer;
+
+  constructor(masterKey: string) {
+    if (!masterKey || masterKey.length < 16) {
+      throw new Error('Token encryption key must be at least 16 characters long');
+    }
+    this.key = crypto.scryptSync(masterKey, KEY_SALT, 32);
+  }
+
+  encrypt(userId: string, record: unknown): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(CIPHER_ALGORITHM, this.key, iv);
+    cipher.setAAD(Buffer.from(userId, 'utf-8'));
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(record), 'utf-8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return [iv, tag, ciphertext].map(part => part.toString('base64')).join('.');
+  }
+
+  decrypt(userId: string, payload: string): unknown {
+    const [iv, tag, ciphertext] = payload.split('.').map(part => Buffer.from(part, 'base64'));
+    if (!iv || !tag || !ciphertext) {
+      throw new Error(`Malformed token record for user ${userId}`);
+    }
+    const decipher = crypto.createDecipheriv(CIPHER_ALGORITHM, this.key, iv);
+    decipher.setAAD(Buffer.from(userId, 'utf-8'));
+    decipher.setAuthTag(tag);
+    const plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+    return JSON.parse(plaintext.toString('utf-8'));
+  }
+}
+
+// One encrypted file per user. Writes go to a temp file that is renamed over the
+// old record, so a crash mid-write leaves the previous token intact.
+export class EncryptedFileTokenStore implements TokenStore {
+  constructor(private dir: string, private cipher: TokenCipher) {
+    fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+
+  private fileFor(userId: string): string {
+    return path.join(this.dir, `${encodeURIComponent(userId)}.enc`);
+  }
+
+  async get(userId: string): Promise<UserAccounts | null> {
+    try {
+      const payload = await fs.promises.readFile(this.fileFor(userId), 'utf-8');
+      return normalizeUserAccounts(this.cipher.decrypt(userId, payload.trim()));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async set(userId: string, accounts: UserAccounts): Promise<void> {
+    const target = this.fileFor(userId);
+    const tempFile = `${target}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await fs.promises.writeFile(tempFile, this.cipher.encrypt(userId, accounts), { mode: 0o600 });
+    await fs.promises.rename(tempFile, target);
+  }
+
+  async delete(userId: string): Promise<void> {
+    await fs.promises.rm(this.fileFor(userId), { force: true });
+  }
+
+  async listUserIds(): Promise<string[]> {
+    const files = await fs.promises.readdir(this.dir);
+    return files
+      .filter(file => file.endsWith('.enc'))
+      .map(file => decodeURIComponent(file.slice(0, -'.enc'.length)));
+  }
+}
+
+// SQLite (libsql) backend. Each user is a single row replaced by an upsert,
+// which SQLite applies atomically.
+export class SqliteTokenStore implements TokenStore {
+  private client: Client;
+  private ready: Promise<void>;
+
+  constructor(url: string, private cipher: TokenCipher) {
+    this.client = createClient({ url });
+    this.ready = this.client.execute(
+      'CREATE TABLE IF NOT EXISTS user_tokens (user_id TEXT PRIMARY KEY, payload TEXT NOT NULL, updated_at INTEGER NOT NULL)'
+    ).then(() => undefined);
+  }
+
+  async get(userId: string): Promise<UserAccounts | null> {
+    await this.ready;
+    const result = await this.client.execute({
+      sql: 'SELECT payload FROM user_tokens WHERE user_id = ?',
+      args: [userId]
+    });
+    const row = result.rows[0];
+    if (!row) return null;
+    return normalizeUserAccounts(this.cipher.decrypt(userId, String(row.payload)));
+  }
+
+  async set(userId: string, accounts: UserAccounts): Promise<void> {
+    await this.ready;
+    await this.client.execute({
+      sql: `INSERT INTO user_tokens (user_id, payload, updated_at) VALUES (?, ?, ?)
+            ON CONFLICT(user_id) DO UPDATE SET payload = excluded.payload, updated_at = excluded.updated_at`,
+      args: [userId, this.cipher.encrypt(userId, accounts), Date.now()]
+    });
+  }
+
+  async delete(userId: string): Promise<void> {
+    await this.ready;
+    await this.client.execute({ sql: 'DELETE FROM user_tokens WHERE user_id = ?', args: [userId] });
+  }
+
+  async listUserIds(): Promise<string[]> {
+    await this.ready;
+    const result = await this.client.execute('SELECT user_id FROM user_tokens');
+    return result.rows.map(row => String(row.user_id));
+  }
+}
+
+// Build the store selected by TOKEN_STORE ("file" by default, or "sqlite"),
+// keyed by the TOKEN_ENCRYPTION_KEY master key.
+export function createTokenStoreFromEnv(rootDir: string): TokenStore {
+  const masterKey = process.env.TOKEN_ENCRYPTION_KEY;
+  if (!masterKey) {
+    throw new Error('TOKEN_ENCRYPTION_KEY is not set in environment variables');
+  }
+  const cipher = new TokenCipher(masterKey);
+  const backend = (process.env.TOKEN_STORE || 'file').toLowerCase();
+
+  switch (backend) {
+    case 'sqlite':
+      return new SqliteTokenStore(
+        process.env.TOKEN_STORE_URL || `file:${path.join(rootDir, 'user-tokens.db')}`,
+        cipher
+      );
+    case 'file':
+      return new EncryptedFileTokenStore(
+        process.env.TOKEN_STORE_DIR || path.join(rootDir, 'user-tokens'),
+        cipher
+      );
+    default:
+      throw new Error(`Unknown TOKEN_STORE backend: ${backend}. Use "file" or "sqlite".`);
+  }
+}
+
+// Import tokens from the old plaintext user-tokens.json into the store, then
+// remove the plaintext file once every user has been written and read back.
+export async function migrateLegacyTokenFile(store: TokenStore, legacyPath: string): Promise<number> {
+  if (!fs.existsSync(legacyPath)) return 0;
+
+  const legacyTokens: { [key: string]: Credentials } = JSON.parse(fs.readFileSync(legacyPath, 'utf-8'));
+  const userIds = Object.keys(legacyTokens);
+  for (const userId of userIds) {
+    if (await store.get(userId)) {
+      console.log(`Skipping legacy token for user ${userId}, store already has one`);
+      continue;
+    }
+    await store.set(userId, normalizeUserAccounts(legacyTokens[userId]));
+    if (!(await store.get(userId))) {
+      throw new Error(`Legacy token for user ${userId} could not be verified after migration`);
+    }
+  }
+
+  fs.rmSync(legacyPath);
+  console.log(`Migrated ${userIds.length} user token(s) from ${legacyPath} and removed the plaintext file`);
+  return userIds.length;
+}
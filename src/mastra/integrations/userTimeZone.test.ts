@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { zonedTimeToUtc, zonedParts, addDays, formatRangeInTimeZone, formatUtcOffset } from './userTimeZone';
+
+describe('zonedTimeToUtc', () => {
+  it('follows daylight saving changes', () => {
+    // Berlin moves from UTC+1 to UTC+2 on 2026-03-29
+    assert.equal(zonedTimeToUtc({ year: 2026, month: 3, day: 28 }, 9, 0, 'Europe/Berlin').toISOString(), '2026-03-28T08:00:00.000Z');
+    assert.equal(zonedTimeToUtc({ year: 2026, month: 3, day: 29 }, 9, 0, 'Europe/Berlin').toISOString(), '2026-03-29T07:00:00.000Z');
+    // New York moves from UTC-4 to UTC-5 on 2026-11-01
+    assert.equal(zonedTimeToUtc({ year: 2026, month: 10, day: 31 }, 9, 0, 'America/New_York').toISOString(), '2026-10-31T13:00:00.000Z');
+    assert.equal(zonedTimeToUtc({ year: 2026, month: 11, day: 1 }, 9, 0, 'America/New_York').toISOString(), '2026-11-01T14:00:00.000Z');
+  });
+
+  it('round-trips through zonedParts', () => {
+    const instant = zonedTimeToUtc({ year: 2026, month: 7, day: 15 }, 23, 30, 'Asia/Kolkata');
+    const parts = zonedParts(instant, 'Asia/Kolkata');
+    assert.deepEqual([parts.year, parts.month, parts.day, parts.hour, parts.minute], [2026, 7, 15, 23, 30]);
+  });
+});
+
+describe('addDays', () => {
+  it('rolls over months and years', () => {
+    assert.deepEqual(addDays({ year: 2026, month: 12, day: 31 }, 1), { year: 2027, month: 1, day: 1 });
+    assert.deepEqual(addDays({ year: 2028, month: 3, day: 1 }, -1), { year: 2028, month: 2, day: 29 });
+  });
+});
+
+describe('formatting', () => {
+  it('repeats the date of a range only when it ends on another day', () => {
+    assert.equal(
+      formatRangeInTimeZone(new Date('2026-11-02T08:30:00Z'), new Date('2026-11-02T09:00:00Z'), 'Europe/Berlin'),
+      'Mon, Nov 2, 2026, 09:30 - 10:00'
+    );
+    assert.equal(
+      formatRangeInTimeZone(new Date('2026-11-02T22:30:00Z'), new Date('2026-11-03T00:00:00Z'), 'Europe/Berlin'),
+      'Mon, Nov 2, 2026, 23:30 - Tue, Nov 3, 2026, 01:00'
+    );
+  });
+
+  it('writes UTC offsets with a sign', () => {
+    assert.equal(formatUtcOffset(new Date('2026-07-01T12:00:00Z'), 'Europe/Berlin'), '+02:00');
+    assert.equal(formatUtcOffset(new Date('2026-01-01T12:00:00Z'), 'America/New_York'), '-05:00');
+    assert.equal(formatUtcOffset(new Date('2026-01-01T12:00:00Z'), 'Asia/Kolkata'), '+05:30');
+  });
+});
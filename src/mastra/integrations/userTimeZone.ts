@@ -0,0 +1,180 @@
+import { createClient, Client } from '@libsql/client';
+import { getCalendarService } from './googleAuth';
+
+const USER_SETTINGS_DB_URL = process.env.USER_SETTINGS_DB_URL || 'file:user-settings.db';
+// Used until a user's zone is known, e.g. before they connect Google
+const DEFAULT_TIME_ZONE = process.env.DEFAULT_TIME_ZONE || 'UTC';
+
+// Where a stored zone came from; a zone the user set is never replaced by detection.
+// 'default' records that detection failed, so it isn't retried on every message.
+export type TimeZoneSource = 'user' | 'google' | 'default';
+
+export interface ZonedDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+// Per-user IANA time zone, e.g. "Europe/Berlin"
+export class UserTimeZoneStore {
+  private client: Client;
+  private ready: Promise<void>;
+
+  constructor(url: string) {
+    this.client = createClient({ url });
+    this.ready = this.client.execute(
+      'CREATE TABLE IF NOT EXISTS user_time_zones (user_id TEXT PRIMARY KEY, time_zone TEXT NOT NULL, source TEXT NOT NULL, updated_at INTEGER NOT NULL)'
+    ).then(() => undefined);
+  }
+
+  async get(userId: string): Promise<{ timeZone: string; source: TimeZoneSource } | null> {
+    await this.ready;
+    const result = await this.client.execute({
+      sql: 'SELECT time_zone, source FROM user_time_zones WHERE user_id = ?',
+      args: [userId]
+    });
+    const row = result.rows[0];
+    return row ? { timeZone: String(row.time_zone), source: String(row.source) as TimeZoneSource } : null;
+  }
+
+  async set(userId: string, timeZone: string, source: TimeZoneSource): Promise<void> {
+    await this.ready;
+    await this.client.execute({
+      sql: `INSERT INTO user_time_zones (user_id, time_zone, source, updated_at) VALUES (?, ?, ?, ?)
+            ON CONFLICT(user_id) DO UPDATE SET time_zone = excluded.time_zone, source = excluded.source, updated_at = excluded.updated_at`,
+      args: [userId, timeZone, source, Date.now()]
+    });
+  }
+
+  async delete(userId: string): Promise<void> {
+    await this.ready;
+    await this.client.execute({ sql: 'DELETE FROM user_time_zones WHERE user_id = ?', args: [userId] });
+  }
+}
+
+let userTimeZoneStore: UserTimeZoneStore | null = null;
+
+export function getUserTimeZoneStore(): UserTimeZoneStore {
+  if (!userTimeZoneStore) {
+    userTimeZoneStore = new UserTimeZoneStore(USER_SETTINGS_DB_URL);
+  }
+  return userTimeZoneStore;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The time zone set in the user's Google Calendar settings, or null if it can't be read
+export async function detectGoogleTimeZone(userId: string, account?: string): Promise<string | null> {
+  try {
+    const calendar = await getCalendarService(userId, account, 'calendar.read');
+    if (!calendar) return null;
+    const response = await calendar.settings.get({ setting: 'timezone' });
+    const timeZone = response.data.value;
+    return timeZone && isValidTimeZone(timeZone) ? timeZone : null;
+  } catch (error) {
+    console.warn(`Could not read the Google Calendar time zone for user ${userId}:`, error);
+    return null;
+  }
+}
+
+// The user's stored zone; the first time, it is taken from Google Calendar and remembered.
+// When that fails the default is remembered instead, until refreshDetectedTimeZone runs.
+export async function getUserTimeZone(userId: string): Promise<string> {
+  const store = getUserTimeZoneStore();
+  const stored = await store.get(userId);
+  if (stored) return stored.source === 'default' ? DEFAULT_TIME_ZONE : stored.timeZone;
+
+  const detected = await detectGoogleTimeZone(userId);
+  await store.set(userId, detected || DEFAULT_TIME_ZONE, detected ? 'google' : 'default');
+  return detected || DEFAULT_TIME_ZONE;
+}
+
+// Re-read the zone from Google, e.g. after connecting an account or on /timezone auto,
+// unless the user set one
+export async function refreshDetectedTimeZone(userId: string): Promise<string | null> {
+  const store = getUserTimeZoneStore();
+  const stored = await store.get(userId);
+  if (stored?.source === 'user') return stored.timeZone;
+  const detected = await detectGoogleTimeZone(userId);
+  if (detected) await store.set(userId, detected, 'google');
+  else if (!stored) await store.set(userId, DEFAULT_TIME_ZONE, 'default');
+  return detected;
+}
+
+// Wall-clock parts of an instant in a time zone
+export function zonedParts(instant: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(instant).map(part => [part.type, part.value])
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second)
+  };
+}
+
+// How far the zone is ahead of UTC at an instant, in milliseconds
+function zoneOffsetMs(instant: Date, timeZone: string): number {
+  const parts = zonedParts(instant, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// The instant a wall-clock time occurs in a time zone. Offsets are checked at the
+// result, so days with a daylight saving change get the right hour too.
+export function zonedTimeToUtc(date: ZonedDate, hour: number, minute: number, timeZone: string): Date {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+  const firstGuess = wallClock - zoneOffsetMs(new Date(wallClock), timeZone);
+  const offset = zoneOffsetMs(new Date(firstGuess), timeZone);
+  return new Date(wallClock - offset);
+}
+
+export function addDays(date: ZonedDate, days: number): ZonedDate {
+  const next = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: next.getUTCFullYear(), month: next.getUTCMonth() + 1, day: next.getUTCDate() };
+}
+
+// "Mon, Nov 2, 2026, 09:30"
+export function formatInTimeZone(instant: Date | number, timeZone: string): string {
+  return new Date(instant).toLocaleString('en-US', {
+    timeZone,
+    weekday: 'short',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  });
+}
+
+// "Mon, Nov 2, 2026, 09:30 - 10:00"; the end date is only repeated when it is another day
+export function formatRangeInTimeZone(start: Date, end: Date, timeZone: string): string {
+  const startText = formatInTimeZone(start, timeZone);
+  const endText = formatInTimeZone(end, timeZone);
+  const [endDay, endTime] = [endText.slice(0, endText.lastIndexOf(', ')), endText.slice(endText.lastIndexOf(', ') + 2)];
+  return startText.startsWith(`${endDay}, `) ? `${startText} - ${endTime}` : `${startText} - ${endText}`;
+}
+
+// "+01:00" for an instant in a zone
+export function formatUtcOffset(instant: Date, timeZone: string): string {
+  const offsetMinutes = Math.round(zoneOffsetMs(instant, timeZone) / 60000);
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}:${String(absolute % 60).padStart(2, '0')}`;
+}
@@ -1,4 +1,8 @@
 import { Memory } from "@mastra/memory";
+import { createClient } from "@libsql/client";
+
+// Mastra's default memory storage; every agent's Memory shares this database
+const MEMORY_DB_URL = "file:memory.db";
 
 export const gmailMemory = new Memory({
   options: {
@@ -33,7 +37,7 @@ export const gmailMemory = new Memory({
 - Archive Strategy:
 
 ## Common Email Patterns
-- Regular Newsletters:
+- Regular Newsletters: <!-- Sender, emails per week, kept / unsubscribed / filtered -->
 - Frequent Correspondents:
 - Reply Patterns:
 - Follow-up Required:
@@ -126,3 +130,46 @@ export const calendarMemory = new Memory({
     },
   },
 });
+
+// Remove everything the agents remember about a user: their threads (which hold
+// working memory), the stored messages and the semantic recall embeddings.
+// Mastra's deleteThread only drops the thread row, so messages and vectors are
+// deleted directly from the shared memory database.
+export async function purgeUserMemory(userId: string): Promise<{ threads: number; messages: number; embeddings: number }> {
+  const threads = await gmailMemory.getThreadsByResourceId({ resourceId: userId });
+  const threadIds = threads.map(thread => thread.id);
+  const client = createClient({ url: MEMORY_DB_URL });
+  let messages = 0;
+  let embeddings = 0;
+
+  try {
+    if (threadIds.length > 0) {
+      const placeholders = threadIds.map(() => "?").join(", ");
+      const deletedMessages = await client.execute({
+        sql: `DELETE FROM mastra_messages WHERE thread_id IN (${placeholders})`,
+        args: threadIds,
+      });
+      messages = deletedMessages.rowsAffected;
+    }
+
+    const vectorTables = await client.execute(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 'memory_messages%' AND sql LIKE '%F32_BLOB%'"
+    );
+    for (const row of vectorTables.rows) {
+      const deletedEmbeddings = await client.execute({
+        sql: `DELETE FROM ${String(row.name)} WHERE json_extract(metadata, '$.resource_id') = ?`,
+        args: [userId],
+      });
+      embeddings += deletedEmbeddings.rowsAffected;
+    }
+  } finally {
+    client.close();
+  }
+
+  for (const threadId of threadIds) {
+    await gmailMemory.deleteThread(threadId);
+  }
+
+  console.log(`Purged memory for user ${userId}: ${threadIds.length} thread(s), ${messages} message(s), ${embeddings} embedding(s)`);
+  return { threads: threadIds.length, messages, embeddings };
+}
@@ -0,0 +1,38 @@
+// Plain-text extraction from email attachments so the agent can read and summarize them
+import { extractText } from 'unpdf';
+import { htmlToText } from './mimeComposer';
+
+const TEXT_EXTENSIONS = ['.txt', '.md', '.csv', '.tsv', '.json', '.xml', '.log', '.yaml', '.yml', '.ics', '.eml'];
+const TEXT_MIME_TYPES = ['application/json', 'application/xml', 'application/csv', 'application/x-yaml', 'message/rfc822'];
+
+function extensionOf(filename: string): string {
+  const dot = filename.lastIndexOf('.');
+  return dot >= 0 ? filename.slice(dot).toLowerCase() : '';
+}
+
+export function isPdf(filename: string, mimeType: string): boolean {
+  return mimeType === 'application/pdf' || extensionOf(filename) === '.pdf';
+}
+
+// Whether extractAttachmentText can read this kind of file
+export function canExtractText(filename: string, mimeType: string): boolean {
+  return isPdf(filename, mimeType) ||
+    mimeType.startsWith('text/') ||
+    TEXT_MIME_TYPES.includes(mimeType) ||
+    TEXT_EXTENSIONS.includes(extensionOf(filename));
+}
+
+// Returns null for formats that are not text or PDF, e.g. images or office documents
+export async function extractAttachmentText(filename: string, mimeType: string, data: Buffer): Promise<string | null> {
+  if (isPdf(filename, mimeType)) {
+    const { text } = await extractText(new Uint8Array(data), { mergePages: true });
+    return text.trim();
+  }
+  if (mimeType === 'text/html' || ['.html', '.htm'].includes(extensionOf(filename))) {
+    return htmlToText(data.toString('utf-8'));
+  }
+  if (canExtractText(filename, mimeType)) {
+    return data.toString('utf-8').trim();
+  }
+  return null;
+}
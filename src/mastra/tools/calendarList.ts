@@ -0,0 +1,87 @@
+// Per-account cache of the user's calendar list, used to turn the calendar names the
+// agent works with into the IDs the Calendar API expects (e.g. "Team" -> "abc123@group.calendar.google.com").
+import { z } from "zod";
+import { calendar_v3 } from "googleapis";
+import { getLinkedAccount } from "../integrations/googleAuth";
+
+const CALENDAR_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Optional input of the calendar tools: which of the account's calendars to use
+export const calendarSchema = z.string().optional().describe(
+  "Name or ID of the calendar to use, e.g. 'Team' or a shared calendar's name, from listCalendarsTool. Omit to use the primary calendar"
+);
+
+interface CachedCalendars {
+  calendars: calendar_v3.Schema$CalendarListEntry[];
+  fetchedAt: number;
+}
+
+const calendarCache: Map<string, CachedCalendars> = new Map();
+
+// One cache entry per linked Google account
+export async function calendarCacheKey(userId: string, account?: string): Promise<string> {
+  const linked = await getLinkedAccount(userId, account);
+  return `${userId}:${linked?.email || linked?.alias || account || ''}`;
+}
+
+export async function getCalendars(
+  calendar: calendar_v3.Calendar,
+  cacheKey: string,
+  refresh = false
+): Promise<calendar_v3.Schema$CalendarListEntry[]> {
+  const cached = calendarCache.get(cacheKey);
+  if (cached && !refresh && Date.now() - cached.fetchedAt < CALENDAR_CACHE_TTL_MS) {
+    return cached.calendars;
+  }
+  const calendars: calendar_v3.Schema$CalendarListEntry[] = [];
+  let pageToken: string | undefined;
+  do {
+    const response = await calendar.calendarList.list({ pageToken });
+    calendars.push(...(response.data.items || []));
+    pageToken = response.data.nextPageToken ?? undefined;
+  } while (pageToken);
+  calendarCache.set(cacheKey, { calendars, fetchedAt: Date.now() });
+  return calendars;
+}
+
+// The name the user sees: their own rename of a shared calendar, else its title
+export function calendarNameOf(entry: calendar_v3.Schema$CalendarListEntry): string {
+  return entry.summaryOverride || entry.summary || entry.id || '';
+}
+
+// Match on ID first, then on the displayed name, ignoring case; "primary" always means the primary calendar
+function matchCalendar(
+  calendars: calendar_v3.Schema$CalendarListEntry[],
+  nameOrId: string
+): calendar_v3.Schema$CalendarListEntry | undefined {
+  const wanted = nameOrId.trim().toLowerCase();
+  if (wanted === 'primary') return calendars.find(entry => entry.primary);
+  return calendars.find(entry => entry.id?.toLowerCase() === wanted) ||
+    calendars.find(entry => calendarNameOf(entry).toLowerCase() === wanted) ||
+    calendars.find(entry => entry.summary?.toLowerCase() === wanted);
+}
+
+export async function findCalendar(
+  calendar: calendar_v3.Calendar,
+  cacheKey: string,
+  nameOrId: string
+): Promise<calendar_v3.Schema$CalendarListEntry | undefined> {
+  const entry = matchCalendar(await getCalendars(calendar, cacheKey), nameOrId);
+  if (entry) return entry;
+  // The calendar may have been created or shared with the user since the cache was filled
+  return matchCalendar(await getCalendars(calendar, cacheKey, true), nameOrId);
+}
+
+// Resolve a calendar name or ID; no name means the primary calendar
+export async function resolveCalendarId(
+  calendar: calendar_v3.Calendar,
+  cacheKey: string,
+  nameOrId?: string
+): Promise<string> {
+  if (!nameOrId || nameOrId.trim().toLowerCase() === 'primary') return 'primary';
+  const entry = await findCalendar(calendar, cacheKey, nameOrId);
+  if (!entry?.id) {
+    throw new Error(`Unknown calendar: ${nameOrId}. Use listCalendarsTool to see the user's calendars.`);
+  }
+  return entry.id;
+}
@@ -0,0 +1,95 @@
+// Turning Gmail message payloads into clean, readable body text
+import { htmlToText } from "./mimeComposer";
+
+// Find the first body part of the given MIME type, skipping attachments
+export function findBodyPart(part: any, mimeType: string): any {
+  if (!part) return null;
+  if (part.mimeType === mimeType && part.body?.data && !part.filename) return part;
+  for (const child of part.parts || []) {
+    const found = findBodyPart(child, mimeType);
+    if (found) return found;
+  }
+  return null;
+}
+
+// Charset declared in the part's Content-Type header, e.g. iso-8859-1 or windows-1252
+function charsetOf(part: any): string {
+  const contentType = (part.headers || []).find((header: any) => header.name?.toLowerCase() === 'content-type')?.value || '';
+  const match = contentType.match(/charset="?([^";\s]+)"?/i);
+  return match ? match[1].toLowerCase() : 'utf-8';
+}
+
+// Gmail returns part data as base64url; the bytes are in the part's declared charset
+export function decodePartData(part: any): string {
+  const bytes = Buffer.from(part.body.data, 'base64url');
+  try {
+    return new TextDecoder(charsetOf(part)).decode(bytes);
+  } catch {
+    // Unknown or unsupported charset label
+    return bytes.toString('utf-8');
+  }
+}
+
+// Prefer the plain-text alternative; fall back to the HTML part converted to text
+export function bodyTextOf(payload: any): string {
+  const textPart = findBodyPart(payload, 'text/plain');
+  if (textPart) return decodePartData(textPart).replace(/\r\n/g, '\n').trim();
+  const htmlPart = findBodyPart(payload, 'text/html');
+  if (htmlPart) return htmlToText(decodePartData(htmlPart));
+  return '';
+}
+
+// Lines that start the quoted history of a reply or forward in common mail clients
+const QUOTE_HEADER_PATTERNS = [
+  /^On .+wrote:\s*$/,
+  /^Am .+schrieb .+:\s*$/,
+  /^Le .+a écrit\s*:\s*$/,
+  /^El .+escribió:\s*$/,
+  /^-{2,}\s*Original Message\s*-{2,}/i,
+  /^-{2,}\s*Forwarded message\s*-{2,}/i,
+  /^_{10,}\s*$/
+];
+
+// Lines that start a signature block
+const SIGNATURE_PATTERNS = [
+  /^-- ?$/,
+  /^Sent from my /i,
+  /^Get Outlook for /i
+];
+
+// Remove quoted history and signatures, keeping only what the sender wrote in this message
+export function stripQuotedText(text: string): string {
+  const lines = text.split('\n');
+  const kept: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    // "On <date>, <name> wrote:" is often wrapped over two lines
+    const joined = i + 1 < lines.length ? `${line} ${lines[i + 1].trim()}` : line;
+    const isOutlookHeader = /^From: /.test(line) && lines.slice(i + 1, i + 4).some(next => /^(Sent|Date): /.test(next.trim()));
+    if (QUOTE_HEADER_PATTERNS.some(pattern => pattern.test(line) || pattern.test(joined)) || isOutlookHeader) {
+      break;
+    }
+    if (SIGNATURE_PATTERNS.some(pattern => pattern.test(line))) {
+      break;
+    }
+    if (line.startsWith('>')) continue;
+    kept.push(lines[i]);
+  }
+
+  const stripped = kept.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+  // A message that is nothing but a quote (e.g. a bare forward) keeps its full text
+  return stripped || text.trim();
+}
+
+// Cut text down to a token budget, preferring to end at a paragraph or sentence
+export function truncateToTokenBudget(text: string, maxTokens: number): { text: string; truncated: boolean } {
+  const maxChars = maxTokens * 4;
+  if (text.length <= maxChars) return { text, truncated: false };
+  const cut = text.slice(0, maxChars);
+  const boundary = Math.max(cut.lastIndexOf('\n\n'), cut.lastIndexOf('. '));
+  return {
+    text: `${boundary > maxChars * 0.7 ? cut.slice(0, boundary + 1) : cut}`.trimEnd(),
+    truncated: true
+  };
+}
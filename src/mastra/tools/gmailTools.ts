@@ -1,27 +1,176 @@
 // Gmail Tools - Real Implementation using Google API
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
-import { getGmailService } from "../integrations/googleAuth";
-
-// Helper function to format email with proper Base64 encoding
-function createEmail({to, subject, body}: {to: string, subject: string, body: string}) {
-  const emailLines = [
-    `To: ${to}`,
-    `Subject: ${subject}`,
-    'Content-Type: text/html; charset=utf-8',
-    'MIME-Version: 1.0',
-    '',
-    body
-  ];
-  
-  return Buffer.from(emailLines.join('\r\n')).toString('base64')
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=+$/, '');
+import { gmail_v1 } from "googleapis";
+import { getGmailService, getLinkedAccount } from "../integrations/googleAuth";
+import { getUploads } from "../integrations/telegramUploads";
+import { sendDocumentToUser } from "../integrations/chatDelivery";
+import { requestConfirmation } from "../integrations/chatConfirmation";
+import { getScheduledEmailQueue } from "../integrations/scheduledEmails";
+import { getUserTimeZone, formatInTimeZone } from "../integrations/userTimeZone";
+import { extractAttachmentText, canExtractText } from "./attachmentText";
+import { findBodyPart, decodePartData, bodyTextOf, stripQuotedText, truncateToTokenBudget } from "./emailBody";
+import { labelCacheKey, getLabels, findLabel, createLabel, resolveLabelIds, invalidateLabels } from "./labelCache";
+import { resolveUserId, accountSchema } from "./userContext";
+import { composeEmail, splitAddressList, emailAddressOf, escapeHtml, htmlToText, MimeAttachment } from "./mimeComposer";
+import { parseListUnsubscribe, unsubscribeMethodOf, listIdOf, oneClickUnsubscribe, UnsubscribeOptions } from "./listUnsubscribe";
+
+function headerMap(headers: any[] = []): { [name: string]: string } {
+  return headers.reduce((acc: any, header: any) => {
+    acc[header.name.toLowerCase()] = header.value;
+    return acc;
+  }, {});
+}
+
+function prefixSubject(prefix: 'Re' | 'Fwd', subject: string): string {
+  const pattern = prefix === 'Re' ? /^re:/i : /^(fwd?|fw):/i;
+  return pattern.test(subject.trim()) ? subject : `${prefix}: ${subject}`;
+}
+
+// Recipients, subject and threading headers for a reply to an existing message
+async function prepareReply(gmail: gmail_v1.Gmail, emailId: string, replyAll: boolean) {
+  const original = await gmail.users.messages.get({
+    userId: 'me',
+    id: emailId,
+    format: 'metadata',
+    metadataHeaders: ['From', 'To', 'Cc', 'Reply-To', 'Subject', 'Message-ID', 'References']
+  });
+  const headers = headerMap(original.data.payload?.headers);
+  const profile = await gmail.users.getProfile({ userId: 'me' });
+  const ownAddress = (profile.data.emailAddress || '').toLowerCase();
+
+  // Reply to Reply-To if set, otherwise the sender. If the user sent the original, reply to its recipients.
+  let toList = splitAddressList(headers['reply-to'] || headers.from);
+  if (toList.every(address => emailAddressOf(address) === ownAddress)) {
+    toList = splitAddressList(headers.to);
+  }
+  let ccList: string[] = [];
+  if (replyAll) {
+    const seen = new Set([ownAddress, ...toList.map(emailAddressOf)]);
+    ccList = [...splitAddressList(headers.to), ...splitAddressList(headers.cc)].filter(address => {
+      const email = emailAddressOf(address);
+      if (seen.has(email)) return false;
+      seen.add(email);
+      return true;
+    });
+  }
+  if (toList.length === 0) {
+    throw new Error("Could not determine who to reply to");
+  }
+
+  const messageId = headers['message-id'];
+  return {
+    to: toList.join(', '),
+    cc: ccList.length > 0 ? ccList.join(', ') : undefined,
+    subject: prefixSubject('Re', headers.subject || ''),
+    inReplyTo: messageId,
+    references: [headers.references, messageId].filter(Boolean).join(' ') || undefined,
+    threadId: original.data.threadId ?? undefined
+  };
+}
+
+// Gmail rejects messages over 25 MB once encoded; base64 makes attachments a third larger
+const MAX_REATTACH_TOTAL_BYTES = 18 * 1024 * 1024;
+
+// Download the attachments of a message so they can be re-attached to a new one. Attachments
+// that would take the total over MAX_REATTACH_TOTAL_BYTES are skipped and named in `skipped`.
+async function collectAttachments(
+  gmail: gmail_v1.Gmail,
+  messageId: string,
+  payload: any
+): Promise<{ attachments: MimeAttachment[]; skipped: string[] }> {
+  const attachments: MimeAttachment[] = [];
+  const skipped: string[] = [];
+  let totalBytes = 0;
+  const collect = async (part: any) => {
+    if (!part) return;
+    if (part.filename && (part.body?.attachmentId || part.body?.data)) {
+      const size = part.body.size || 0;
+      if (totalBytes + size > MAX_REATTACH_TOTAL_BYTES) {
+        skipped.push(part.filename);
+      } else {
+        let data = part.body.data;
+        if (!data) {
+          const attachment = await gmail.users.messages.attachments.get({
+            userId: 'me',
+            messageId,
+            id: part.body.attachmentId
+          });
+          data = attachment.data.data;
+        }
+        if (data) {
+          const buffer = Buffer.from(data, 'base64url');
+          totalBytes += buffer.length;
+          attachments.push({
+            filename: part.filename,
+            mimeType: part.mimeType || 'application/octet-stream',
+            data: buffer
+          });
+        }
+      }
+    }
+    for (const child of part.parts || []) {
+      await collect(child);
+    }
+  };
+  await collect(payload);
+  return { attachments, skipped };
+}
+
+// Bodies longer than this are shortened unless the agent asks for the full text
+const READ_EMAIL_TOKEN_BUDGET = 2000;
+// Attachments larger than this are neither downloaded nor sent to the chat
+const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+// Extracted text beyond this is cut off to keep the agent's context small
+const MAX_ATTACHMENT_TEXT_CHARS = 20000;
+
+// Find an attachment part by its ID or, since Gmail may issue a new ID on every fetch, by filename
+function findAttachmentPart(part: any, attachmentId?: string, filename?: string): any {
+  if (!part) return null;
+  if (part.filename && part.body?.attachmentId &&
+      (part.body.attachmentId === attachmentId || (filename && part.filename.toLowerCase() === filename.toLowerCase()))) {
+    return part;
+  }
+  for (const child of part.parts || []) {
+    const found = findAttachmentPart(child, attachmentId, filename);
+    if (found) return found;
+  }
+  return null;
+}
+
+// Run an async task for every item, with at most `limit` running at once
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+// Parallel Gmail requests per listing; higher values run into per-user rate limits
+const LIST_CONCURRENCY = 5;
+const MAX_LIST_PAGE_SIZE = 50;
+// Attachments can sit inside multipart/related or alternative parts, or a forwarded message
+const PART_TREE_DEPTH = 5;
+// A listing needs the headers and the shape of the parts tree, but no body data, which
+// metadata format can't give; so it asks for full format restricted to these fields
+const LIST_MESSAGE_FIELDS = 'id,threadId,labelIds,snippet,payload(mimeType,headers,filename,body/attachmentId,' +
+  Array.from({ length: PART_TREE_DEPTH }).reduce<string>(inner => `parts(filename,body/attachmentId${inner ? `,${inner}` : ''})`, '') + ')';
+
+// An attachment is any part with a file name whose content is stored separately
+function hasAttachmentParts(part: any): boolean {
+  if (!part) return false;
+  if (part.filename && part.body?.attachmentId) return true;
+  return (part.parts || []).some(hasAttachmentParts);
 }
 
 // Helper to parse Gmail message
-function parseMessage(message: any) {
+function parseMessage(message: any, labelNames: Map<string, string> = new Map()) {
   if (!message || !message.payload || !message.payload.headers) {
     console.warn("Could not parse message, missing payload or headers:", message?.id);
     return {
@@ -39,69 +188,97 @@ function parseMessage(message: any) {
   
   // Extract snippet or body
   let snippet = message.snippet || '';
+  const labelIds: string[] = message.labelIds || [];
   
   return {
     id: message.id,
+    threadId: message.threadId,
     subject: headers.subject || '(No Subject)',
     from: headers.from || '(Unknown Sender)',
+    to: headers.to,
     date: headers.date || new Date().toISOString(),
-    snippet: snippet
+    snippet: snippet,
+    labels: labelIds.map(id => labelNames.get(id) || id),
+    unread: labelIds.includes('UNREAD'),
+    starred: labelIds.includes('STARRED'),
+    important: labelIds.includes('IMPORTANT'),
+    hasAttachments: hasAttachmentParts(message.payload)
   };
 }
 
 export const listEmailsTool = createTool({
   id: "list-emails",
-  description: "List recent emails from the user's Gmail inbox.",
+  description: "List emails from the user's Gmail, newest first, one page at a time. Each email includes its labels and unread, starred, important and attachment flags.",
   inputSchema: z.object({
-    count: z.number().optional().default(10).describe("Number of emails to retrieve"),
-    query: z.string().optional().describe("Search query to filter emails"),
-    userId: z.string().describe("The Telegram user ID for authentication")
+    count: z.number().optional().default(10).describe("Number of emails per page (max 50)"),
+    query: z.string().optional().describe("Gmail search query to filter emails, e.g. 'is:unread from:boss@example.com'"),
+    pageToken: z.string().optional().describe("nextPageToken from a previous call, to continue with the next page of the same query"),
+    account: accountSchema
   }),
-  outputSchema: z.array(z.object({
-    id: z.string(),
-    subject: z.string(),
-    from: z.string(),
-    date: z.string(),
-    snippet: z.string(),
-  })),
-  execute: async ({ context }) => {
-    const { count = 10, query = '', userId } = context;
-    if (!userId) {
-      throw new Error("Authentication error: User ID is required.");
-    }
+  outputSchema: z.object({
+    emails: z.array(z.object({
+      id: z.string(),
+      threadId: z.string().optional(),
+      subject: z.string(),
+      from: z.string(),
+      to: z.string().optional(),
+      date: z.string(),
+      snippet: z.string(),
+      labels: z.array(z.string()).optional(),
+      unread: z.boolean().optional(),
+      starred: z.boolean().optional(),
+      important: z.boolean().optional(),
+      hasAttachments: z.boolean().optional()
+    })),
+    nextPageToken: z.string().optional(),
+    resultSizeEstimate: z.number().optional()
+  }),
+  execute: async ({ context, resourceId }) => {
+    const { count = 10, query = '', pageToken, account } = context;
+    const userId = resolveUserId(resourceId);
     try {
-      const gmail = await getGmailService(userId);
+      const gmail = await getGmailService(userId, account, 'gmail.read');
       if (!gmail) {
           throw new Error("Google Authentication required. Please use /connect_google.");
       }
       
-      // List messages from inbox
+      // List one page of message IDs
       const response = await gmail.users.messages.list({
         userId: 'me',
-        maxResults: count,
-        q: query
+        maxResults: Math.min(Math.max(count, 1), MAX_LIST_PAGE_SIZE),
+        q: query,
+        pageToken
       });
       
+      const nextPageToken = response.data.nextPageToken ?? undefined;
+      const resultSizeEstimate = response.data.resultSizeEstimate ?? undefined;
       if (!response.data.messages || response.data.messages.length === 0) {
         console.log('No emails found matching criteria');
-        return [];
+        return { emails: [], nextPageToken, resultSizeEstimate };
       }
+
+      // Show user label names instead of IDs like Label_123
+      const labels = await getLabels(gmail, await labelCacheKey(userId, account));
+      const labelNames = new Map(labels.map(label => [label.id || '', label.name || '']));
       
-      // Get full details for each message
-      const emails = await Promise.all(
-        response.data.messages.map(async (message) => {
-          if (!message.id) return null; // Skip if no ID
-          const fullMessage = await gmail.users.messages.get({
-            userId: 'me',
-            id: message.id
-          });
-          
-          return parseMessage(fullMessage.data);
-        })
-      );
+      // Fetch headers and the parts tree without bodies, a few messages at a time
+      const emails = await mapWithConcurrency(response.data.messages, LIST_CONCURRENCY, async (message) => {
+        if (!message.id) return null; // Skip if no ID
+        const details = await gmail.users.messages.get({
+          userId: 'me',
+          id: message.id,
+          format: 'full',
+          fields: LIST_MESSAGE_FIELDS
+        });
+        return parseMessage(details.data, labelNames);
+      });
       
       // Filter out any null results from skipped messages
-      return emails.filter(email => email !== null) as any;
+      return {
+        emails: emails.filter(email => email !== null) as any,
+        nextPageToken,
+        resultSizeEstimate
+      };
     } catch (error) {
       console.error('Failed to list emails:', error);
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -113,31 +290,33 @@ export const listEmailsTool = createTool({
 
 export const sendEmailTool = createTool({
   id: "send-email",
-  description: "Send an email using Gmail.",
+  description: "Send an email using Gmail, with optional cc, bcc and attachments the user uploaded to the chat.",
   inputSchema: z.object({
-    to: z.string().describe("Recipient email address"),
+    to: z.string().describe("Recipient email address(es), comma separated, e.g. 'Ana <ana@example.com>, bob@example.com'"),
+    cc: z.string().optional().describe("Cc recipient email address(es), comma separated"),
+    bcc: z.string().optional().describe("Bcc recipient email address(es), comma separated; hidden from the other recipients"),
     subject: z.string().describe("Email subject line"),
-    body: z.string().describe("Email body content (can include HTML formatting)"),
-    userId: z.string().describe("The Telegram user ID for authentication")
+    body: z.string().describe("Email body content, plain text or HTML. A plain-text version is added automatically"),
+    attachmentIds: z.array(z.string()).optional().describe("IDs of files the user uploaded to the chat (e.g. 'upload-1a2b3c') to attach"),
+    account: accountSchema
   }),
   outputSchema: z.object({
     success: z.boolean(),
     emailId: z.string().optional(),
     message: z.string()
   }),
-  execute: async ({ context }) => {
-    const { to, subject, body, userId } = context;
-    if (!userId) {
-      throw new Error("Authentication error: User ID is required.");
-    }
+  execute: async ({ context, resourceId }) => {
+    const { to, cc, bcc, subject, body, attachmentIds = [], account } = context;
+    const userId = resolveUserId(resourceId);
     try {
-      const gmail = await getGmailService(userId);
+      const gmail = await getGmailService(userId, account, 'gmail.send');
       if (!gmail) {
           throw new Error("Google Authentication required. Please use /connect_google.");
       }
       
       // Create the email content
-      const rawEmail = createEmail({ to, subject, body });
+      const attachments = getUploads(userId, attachmentIds).map(({ filename, mimeType, data }) => ({ filename, mimeType, data }));
+      const rawEmail = composeEmail({ to, cc, bcc, subject, body, attachments });
       
       // Send the email
       const response = await gmail.users.messages.send({
@@ -152,7 +331,7 @@ export const sendEmailTool = createTool({
       return { 
         success: true, 
         emailId: response.data.id ?? undefined, 
-        message: "Email sent successfully" 
+        message: `Email sent successfully${attachments.length > 0 ? ` with ${attachments.length} attachment(s)` : ''}` 
       };
     } catch (error) {
       console.error('Failed to send email:', error);
@@ -168,50 +347,35 @@ export const sendEmailTool = createTool({
 
 export const deleteEmailTool = createTool({
   id: "delete-email",
-  description: "Delete or trash an email from Gmail.",
+  description: "Move an email to Gmail's trash, where it stays recoverable for 30 days before Gmail deletes it for good.",
   inputSchema: z.object({
     emailId: z.string().describe("ID of the email to delete"),
-    permanent: z.boolean().optional().default(false).describe("If true, permanently deletes the email instead of moving to trash"),
-    userId: z.string().describe("The Telegram user ID for authentication")
+    account: accountSchema
   }),
   outputSchema: z.object({
     success: z.boolean(),
     message: z.string()
   }),
-  execute: async ({ context }) => {
-    const { emailId, permanent = false, userId } = context;
-    if (!userId) {
-      throw new Error("Authentication error: User ID is required.");
-    }
+  execute: async ({ context, resourceId }) => {
+    const { emailId, account } = context;
+    const userId = resolveUserId(resourceId);
     try {
-      const gmail = await getGmailService(userId);
+      const gmail = await getGmailService(userId, account, 'gmail.modify');
       if (!gmail) {
           throw new Error("Google Authentication required. Please use /connect_google.");
       }
       
-      if (permanent) {
-        // Permanently delete the message
-        await gmail.users.messages.delete({
-          userId: 'me',
-          id: emailId
-        });
-        
-        return { 
-          success: true, 
-          message: "Email permanently deleted" 
-        };
-      } else {
-        // Move message to trash
-        await gmail.users.messages.trash({
-          userId: 'me',
-          id: emailId
-        });
-        
-        return { 
-          success: true, 
-          message: "Email moved to trash" 
-        };
-      }
+      // Permanent deletion needs full mailbox access (https://mail.google.com/), which no
+      // connection profile requests, so emails always go to the trash
+      await gmail.users.messages.trash({
+        userId: 'me',
+        id: emailId
+      });
+      
+      return { 
+        success: true, 
+        message: "Email moved to trash" 
+      };
     } catch (error) {
       console.error('Failed to delete email:', error);
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -226,30 +390,33 @@ export const deleteEmailTool = createTool({
 
 export const readEmailTool = createTool({
   id: "read-email",
-  description: "Get the full content of a specific email.",
+  description: "Get the content of a specific email as clean text. Quoted history and signatures are removed and long bodies are shortened unless fullText is set.",
   inputSchema: z.object({
     emailId: z.string().describe("ID of the email to read"),
-    userId: z.string().describe("The Telegram user ID for authentication")
+    fullText: z.boolean().optional().default(false).describe("Return the complete body, including quoted history, without shortening it"),
+    account: accountSchema
   }),
   outputSchema: z.object({
     id: z.string(),
+    threadId: z.string().optional(),
     subject: z.string(),
     from: z.string(),
     to: z.string(),
     date: z.string(),
     body: z.string(),
+    truncated: z.boolean().optional(),
     attachments: z.array(z.object({
       filename: z.string(),
-      mimeType: z.string()
+      mimeType: z.string(),
+      attachmentId: z.string().optional(),
+      size: z.number().optional()
     })).optional()
   }),
-  execute: async ({ context }) => {
-    const { emailId, userId } = context;
-    if (!userId) {
-      throw new Error("Authentication error: User ID is required.");
-    }
+  execute: async ({ context, resourceId }) => {
+    const { emailId, fullText = false, account } = context;
+    const userId = resolveUserId(resourceId);
     try {
-      const gmail = await getGmailService(userId);
+      const gmail = await getGmailService(userId, account, 'gmail.read');
        if (!gmail) {
           throw new Error("Google Authentication required. Please use /connect_google.");
       }
@@ -271,25 +438,20 @@ export const readEmailTool = createTool({
         return acc;
       }, {});
       
-      // Extract body content
-      let body = '';
-      let attachments: { filename: string; mimeType: string }[] = [];
+      // Extract attachments
+      let attachments: { filename: string; mimeType: string; attachmentId?: string; size?: number }[] = [];
       
       // Function to extract parts recursively
       function extractParts(messagePart: any) {
         if (!messagePart) return;
         
-        if (messagePart.body && messagePart.body.data) {
-          // Found text content
-          const buff = Buffer.from(messagePart.body.data, 'base64');
-          body += buff.toString('utf-8'); // Specify encoding
-        }
-        
         // Check for attachments
         if (messagePart.filename && messagePart.filename.length > 0) {
           attachments.push({
             filename: messagePart.filename,
-            mimeType: messagePart.mimeType
+            mimeType: messagePart.mimeType,
+            attachmentId: messagePart.body?.attachmentId ?? undefined,
+            size: messagePart.body?.size ?? undefined
           });
         }
         
@@ -303,14 +465,22 @@ export const readEmailTool = createTool({
       if (message.payload) {
         extractParts(message.payload);
       }
+
+      // One alternative of the body as text, without the history it replies to
+      const text = bodyTextOf(message.payload) || message.snippet || '';
+      const body = fullText
+        ? { text, truncated: false }
+        : truncateToTokenBudget(stripQuotedText(text), READ_EMAIL_TOKEN_BUDGET);
       
       return {
         id: message.id, // message.id is guaranteed non-null here
+        threadId: message.threadId ?? undefined,
         subject: headers.subject || '(No Subject)',
         from: headers.from || '(Unknown Sender)',
         to: headers.to || '(Unknown Recipient)',
         date: headers.date || new Date().toISOString(),
-        body: body || message.snippet || '',
+        body: body.text,
+        truncated: body.truncated || undefined,
         attachments: attachments.length > 0 ? attachments : undefined
       };
     } catch (error) {
@@ -324,39 +494,54 @@ export const readEmailTool = createTool({
 
 export const labelEmailTool = createTool({
   id: "label-email",
-  description: "Apply labels to an email.",
+  description: "Apply labels to an email or remove them, by label name.",
   inputSchema: z.object({
     emailId: z.string().describe("ID of the email to label"),
-    labels: z.array(z.string()).describe("Labels to apply to the email"),
-    userId: z.string().describe("The Telegram user ID for authentication")
+    labels: z.array(z.string()).optional().default([]).describe("Names of labels to apply, e.g. 'Clients/Acme' or 'STARRED'"),
+    removeLabels: z.array(z.string()).optional().describe("Names of labels to remove from the email"),
+    createMissing: z.boolean().optional().default(false).describe("Create labels to apply that don't exist yet"),
+    account: accountSchema
   }),
   outputSchema: z.object({
     success: z.boolean(),
+    createdLabels: z.array(z.string()).optional(),
     message: z.string()
   }),
-  execute: async ({ context }) => {
-    const { emailId, labels, userId } = context;
-    if (!userId) {
-      throw new Error("Authentication error: User ID is required.");
-    }
+  execute: async ({ context, resourceId }) => {
+    const { emailId, labels = [], removeLabels = [], createMissing = false, account } = context;
+    const userId = resolveUserId(resourceId);
     try {
-      const gmail = await getGmailService(userId);
+      const gmail = await getGmailService(userId, account, 'gmail.modify');
        if (!gmail) {
           throw new Error("Google Authentication required. Please use /connect_google.");
       }
+      if (labels.length === 0 && removeLabels.length === 0) {
+        throw new Error("No labels to apply or remove");
+      }
+
+      // Gmail expects label IDs, so resolve the names first
+      const cacheKey = await labelCacheKey(userId, account);
+      const toAdd = await resolveLabelIds(gmail, cacheKey, labels, createMissing);
+      const toRemove = await resolveLabelIds(gmail, cacheKey, removeLabels);
       
       // Modify the message labels
       await gmail.users.messages.modify({
         userId: 'me',
         id: emailId,
         requestBody: {
-          addLabelIds: labels
+          addLabelIds: toAdd.ids,
+          removeLabelIds: toRemove.ids
         }
       });
       
+      const changes = [
+        ...(labels.length > 0 ? [`applied ${labels.join(', ')}`] : []),
+        ...(removeLabels.length > 0 ? [`removed ${removeLabels.join(', ')}`] : [])
+      ];
       return { 
         success: true, 
-        message: `Successfully applied labels: ${labels.join(', ')}` 
+        createdLabels: toAdd.created.length > 0 ? toAdd.created : undefined,
+        message: `Successfully ${changes.join(' and ')}` 
       };
     } catch (error) {
       console.error('Failed to label email:', error);
@@ -368,4 +553,1777 @@ export const labelEmailTool = createTool({
       };
     }
   }
-}); 
\ No newline at end of file
+}); 
+
+export const listLabelsTool = createTool({
+  id: "list-labels",
+  description: "List the Gmail labels of the user's account.",
+  inputSchema: z.object({
+    includeSystem: z.boolean().optional().default(false).describe("Also include system labels such as INBOX, STARRED and CATEGORY_PROMOTIONS"),
+    account: accountSchema
+  }),
+  outputSchema: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    type: z.string()
+  })),
+  execute: async ({ context, resourceId }) => {
+    const { includeSystem = false, account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.read');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      // Listing is an explicit request, so always show the current labels
+      const labels = await getLabels(gmail, await labelCacheKey(userId, account), true);
+      return labels
+        .filter(label => includeSystem || label.type === 'user')
+        .map(label => ({
+          id: label.id || '',
+          name: label.name || '',
+          type: label.type || 'user'
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('Failed to list labels:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      throw new Error(`Failed to list labels: ${errorMessage}`);
+    }
+  }
+});
+
+export const createLabelTool = createTool({
+  id: "create-label",
+  description: "Create a Gmail label if it doesn't exist yet. Use '/' in the name for nested labels, e.g. 'Clients/Acme'.",
+  inputSchema: z.object({
+    name: z.string().describe("Name of the label to create"),
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    labelId: z.string().optional(),
+    created: z.boolean().optional(),
+    message: z.string()
+  }),
+  execute: async ({ context, resourceId }) => {
+    const { name, account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.modify');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      const cacheKey = await labelCacheKey(userId, account);
+      const existing = await findLabel(gmail, cacheKey, name);
+      if (existing?.id) {
+        return {
+          success: true,
+          labelId: existing.id,
+          created: false,
+          message: `Label "${existing.name}" already exists`
+        };
+      }
+
+      const label = await createLabel(gmail, cacheKey, name);
+      return {
+        success: true,
+        labelId: label.id ?? undefined,
+        created: true,
+        message: `Label "${label.name}" created`
+      };
+    } catch (error) {
+      console.error('Failed to create label:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      return {
+        success: false,
+        message: `Failed to create label: ${errorMessage}`
+      };
+    }
+  }
+});
+
+export const renameLabelTool = createTool({
+  id: "rename-label",
+  description: "Rename a Gmail label. Emails keep the label under its new name.",
+  inputSchema: z.object({
+    name: z.string().describe("Current name of the label"),
+    newName: z.string().describe("New name for the label"),
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string()
+  }),
+  execute: async ({ context, resourceId }) => {
+    const { name, newName, account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.modify');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      const cacheKey = await labelCacheKey(userId, account);
+      const label = await findLabel(gmail, cacheKey, name);
+      if (!label?.id) throw new Error(`Label "${name}" not found`);
+      if (label.type === 'system') throw new Error(`"${label.name}" is a system label and can't be renamed`);
+
+      await gmail.users.labels.patch({
+        userId: 'me',
+        id: label.id,
+        requestBody: { name: newName.trim() }
+      });
+      invalidateLabels(cacheKey);
+
+      return {
+        success: true,
+        message: `Label "${label.name}" renamed to "${newName.trim()}"`
+      };
+    } catch (error) {
+      console.error('Failed to rename label:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      return {
+        success: false,
+        message: `Failed to rename label: ${errorMessage}`
+      };
+    }
+  }
+});
+
+export const deleteLabelTool = createTool({
+  id: "delete-label",
+  description: "Delete a Gmail label. The emails themselves are kept; only the label is removed from them.",
+  inputSchema: z.object({
+    name: z.string().describe("Name of the label to delete"),
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string()
+  }),
+  execute: async ({ context, resourceId }) => {
+    const { name, account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.modify');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      const cacheKey = await labelCacheKey(userId, account);
+      const label = await findLabel(gmail, cacheKey, name);
+      if (!label?.id) throw new Error(`Label "${name}" not found`);
+      if (label.type === 'system') throw new Error(`"${label.name}" is a system label and can't be deleted`);
+
+      await gmail.users.labels.delete({
+        userId: 'me',
+        id: label.id
+      });
+      invalidateLabels(cacheKey);
+
+      return {
+        success: true,
+        message: `Label "${label.name}" deleted`
+      };
+    } catch (error) {
+      console.error('Failed to delete label:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      return {
+        success: false,
+        message: `Failed to delete label: ${errorMessage}`
+      };
+    }
+  }
+});
+
+export const replyToEmailTool = createTool({
+  id: "reply-to-email",
+  description: "Reply to an existing email inside its Gmail thread, optionally replying to all recipients.",
+  inputSchema: z.object({
+    emailId: z.string().describe("ID of the email being replied to"),
+    body: z.string().describe("Reply body content (can include HTML formatting)"),
+    replyAll: z.boolean().optional().default(false).describe("If true, also send the reply to everyone in To and Cc of the original email"),
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    emailId: z.string().optional(),
+    threadId: z.string().optional(),
+    to: z.string().optional(),
+    cc: z.string().optional(),
+    message: z.string()
+  }),
+  execute: async ({ context, resourceId }) => {
+    const { emailId, body, replyAll = false, account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.send');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      const reply = await prepareReply(gmail, emailId, replyAll);
+      const { to, cc } = reply;
+      const rawEmail = composeEmail({
+        to,
+        cc,
+        subject: reply.subject,
+        body,
+        inReplyTo: reply.inReplyTo,
+        references: reply.references
+      });
+
+      const response = await gmail.users.messages.send({
+        userId: 'me',
+        requestBody: {
+          raw: rawEmail,
+          threadId: reply.threadId
+        }
+      });
+
+      console.log(`Reply sent successfully with ID: ${response.data.id}`);
+
+      return {
+        success: true,
+        emailId: response.data.id ?? undefined,
+        threadId: response.data.threadId ?? undefined,
+        to,
+        cc,
+        message: "Reply sent successfully"
+      };
+    } catch (error) {
+      console.error('Failed to reply to email:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      return {
+        success: false,
+        message: `Failed to reply to email: ${errorMessage}`
+      };
+    }
+  },
+});
+
+export const forwardEmailTool = createTool({
+  id: "forward-email",
+  description: "Forward an existing email, quoting the original message and including its attachments.",
+  inputSchema: z.object({
+    emailId: z.string().describe("ID of the email to forward"),
+    to: z.string().describe("Recipient email address(es), comma separated"),
+    note: z.string().optional().describe("Optional message to write above the forwarded email (can include HTML formatting)"),
+    includeAttachments: z.boolean().optional().default(true).describe("Whether to include the original email's attachments"),
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    emailId: z.string().optional(),
+    attachmentCount: z.number().optional(),
+    skippedAttachments: z.array(z.string()).optional().describe("Attachments left out because the email would be too large to send"),
+    message: z.string()
+  }),
+  execute: async ({ context, resourceId }) => {
+    const { emailId, to, note, includeAttachments = true, account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.send');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      const original = await gmail.users.messages.get({
+        userId: 'me',
+        id: emailId,
+        format: 'full'
+      });
+      const payload = original.data.payload;
+      const headers = headerMap(payload?.headers);
+
+      // Prefer the HTML body; fall back to plain text rendered as HTML
+      let quotedBody = original.data.snippet || '';
+      const htmlPart = findBodyPart(payload, 'text/html');
+      const textPart = htmlPart ? null : findBodyPart(payload, 'text/plain');
+      if (htmlPart) {
+        quotedBody = decodePartData(htmlPart);
+      } else if (textPart) {
+        quotedBody = escapeHtml(decodePartData(textPart)).replace(/\r?\n/g, '<br>');
+      }
+
+      const forwardedHeader = [
+        '---------- Forwarded message ---------',
+        `From: ${headers.from || ''}`,
+        `Date: ${headers.date || ''}`,
+        `Subject: ${headers.subject || ''}`,
+        `To: ${headers.to || ''}`,
+        ...(headers.cc ? [`Cc: ${headers.cc}`] : [])
+      ].map(escapeHtml).join('<br>');
+      const body = `${note ? `${note}<br><br>` : ''}${forwardedHeader}<br><br>${quotedBody}`;
+
+      const { attachments, skipped } = includeAttachments
+        ? await collectAttachments(gmail, emailId, payload)
+        : { attachments: [], skipped: [] };
+
+      const messageId = headers['message-id'];
+      const rawEmail = composeEmail({
+        to,
+        subject: prefixSubject('Fwd', headers.subject || ''),
+        body,
+        references: [headers.references, messageId].filter(Boolean).join(' ') || undefined,
+        attachments
+      });
+
+      const response = await gmail.users.messages.send({
+        userId: 'me',
+        requestBody: {
+          raw: rawEmail,
+          threadId: original.data.threadId ?? undefined
+        }
+      });
+
+      console.log(`Email forwarded successfully with ID: ${response.data.id}`);
+
+      return {
+        success: true,
+        emailId: response.data.id ?? undefined,
+        attachmentCount: attachments.length,
+        skippedAttachments: skipped.length > 0 ? skipped : undefined,
+        message: `Email forwarded successfully${attachments.length > 0 ? ` with ${attachments.length} attachment(s)` : ''}` +
+          (skipped.length > 0 ? `. Left out because the email would be too large to send: ${skipped.join(', ')}` : '')
+      };
+    } catch (error) {
+      console.error('Failed to forward email:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      return {
+        success: false,
+        message: `Failed to forward email: ${errorMessage}`
+      };
+    }
+  },
+});
+
+// Summary of a draft as returned by the drafts API
+function parseDraft(draft: gmail_v1.Schema$Draft) {
+  const message = draft.message || {};
+  const headers = headerMap(message.payload?.headers);
+  return {
+    draftId: draft.id || 'unknown',
+    messageId: message.id ?? undefined,
+    threadId: message.threadId ?? undefined,
+    subject: headers.subject || '(No Subject)',
+    to: headers.to || '',
+    cc: headers.cc || undefined,
+    bcc: headers.bcc || undefined,
+    snippet: message.snippet || ''
+  };
+}
+
+// Body of a draft, preferring HTML so an update keeps the original formatting
+function draftBodyOf(payload: any): { html: string; text: string } {
+  const htmlPart = findBodyPart(payload, 'text/html');
+  const textPart = findBodyPart(payload, 'text/plain');
+  const html = htmlPart ? decodePartData(htmlPart) : '';
+  const text = textPart ? decodePartData(textPart) : htmlToText(html);
+  return { html: html || text, text };
+}
+
+export const createDraftTool = createTool({
+  id: "create-draft",
+  description: "Save an email as a Gmail draft for the user to review instead of sending it. Can prepare a reply that stays in the original thread.",
+  inputSchema: z.object({
+    replyToEmailId: z.string().optional().describe("ID of the email this draft replies to; recipients, subject and threading are taken from it"),
+    replyAll: z.boolean().optional().default(false).describe("When replying, also include everyone in To and Cc of the original email"),
+    to: z.string().optional().describe("Recipient email address(es), comma separated. Required unless replying"),
+    cc: z.string().optional().describe("Cc recipient email address(es), comma separated"),
+    bcc: z.string().optional().describe("Bcc recipient email address(es), comma separated"),
+    subject: z.string().optional().describe("Email subject line. Required unless replying"),
+    body: z.string().describe("Draft body content, plain text or HTML"),
+    attachmentIds: z.array(z.string()).optional().describe("IDs of files the user uploaded to the chat to attach"),
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    draftId: z.string().optional(),
+    threadId: z.string().optional(),
+    message: z.string()
+  }),
+  execute: async ({ context, resourceId }) => {
+    const { replyToEmailId, replyAll = false, to, cc, bcc, subject, body, attachmentIds = [], account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.compose');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      const reply = replyToEmailId ? await prepareReply(gmail, replyToEmailId, replyAll) : null;
+      const recipients = to || reply?.to;
+      const draftSubject = subject || reply?.subject;
+      if (!recipients || !draftSubject) {
+        throw new Error("A draft needs recipients and a subject unless it replies to an email");
+      }
+
+      const attachments = getUploads(userId, attachmentIds).map(({ filename, mimeType, data }) => ({ filename, mimeType, data }));
+      const rawEmail = composeEmail({
+        to: recipients,
+        cc: cc || reply?.cc,
+        bcc,
+        subject: draftSubject,
+        body,
+        inReplyTo: reply?.inReplyTo,
+        references: reply?.references,
+        attachments
+      });
+
+      const response = await gmail.users.drafts.create({
+        userId: 'me',
+        requestBody: {
+          message: {
+            raw: rawEmail,
+            threadId: reply?.threadId
+          }
+        }
+      });
+
+      console.log(`Draft created successfully with ID: ${response.data.id}`);
+
+      return {
+        success: true,
+        draftId: response.data.id ?? undefined,
+        threadId: response.data.message?.threadId ?? undefined,
+        message: reply ? "Reply saved as a draft in the original thread" : "Draft saved"
+      };
+    } catch (error) {
+      console.error('Failed to create draft:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      return {
+        success: false,
+        message: `Failed to create draft: ${errorMessage}`
+      };
+    }
+  },
+});
+
+export const listDraftsTool = createTool({
+  id: "list-drafts",
+  description: "List the user's Gmail drafts.",
+  inputSchema: z.object({
+    count: z.number().min(1).max(MAX_LIST_PAGE_SIZE).optional().default(10).describe(`Number of drafts to retrieve (at most ${MAX_LIST_PAGE_SIZE})`),
+    query: z.string().optional().describe("Gmail search query to filter drafts"),
+    account: accountSchema
+  }),
+  outputSchema: z.array(z.object({
+    draftId: z.string(),
+    messageId: z.string().optional(),
+    threadId: z.string().optional(),
+    subject: z.string(),
+    to: z.string(),
+    cc: z.string().optional(),
+    bcc: z.string().optional(),
+    snippet: z.string()
+  })),
+  execute: async ({ context, resourceId }) => {
+    const { count = 10, query, account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.read');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      const response = await gmail.users.drafts.list({
+        userId: 'me',
+        maxResults: count,
+        q: query
+      });
+
+      const drafts = await mapWithConcurrency(response.data.drafts || [], LIST_CONCURRENCY, async (draft) => {
+        if (!draft.id) return null;
+        const fullDraft = await gmail.users.drafts.get({
+          userId: 'me',
+          id: draft.id,
+          format: 'metadata'
+        });
+        return parseDraft(fullDraft.data);
+      });
+
+      return drafts.filter(draft => draft !== null) as any;
+    } catch (error) {
+      console.error('Failed to list drafts:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      throw new Error(`Failed to list drafts: ${errorMessage}`);
+    }
+  },
+});
+
+export const readDraftTool = createTool({
+  id: "read-draft",
+  description: "Get the full content of a Gmail draft.",
+  inputSchema: z.object({
+    draftId: z.string().describe("ID of the draft to read"),
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    draftId: z.string(),
+    messageId: z.string().optional(),
+    threadId: z.string().optional(),
+    subject: z.string(),
+    to: z.string(),
+    cc: z.string().optional(),
+    bcc: z.string().optional(),
+    body: z.string(),
+    attachments: z.array(z.object({
+      filename: z.string(),
+      mimeType: z.string()
+    })).optional()
+  }),
+  execute: async ({ context, resourceId }) => {
+    const { draftId, account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.read');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      const response = await gmail.users.drafts.get({
+        userId: 'me',
+        id: draftId,
+        format: 'full'
+      });
+
+      const payload = response.data.message?.payload;
+      const attachments: { filename: string; mimeType: string }[] = [];
+      const listAttachments = (part: any) => {
+        if (!part) return;
+        if (part.filename) {
+          attachments.push({ filename: part.filename, mimeType: part.mimeType || 'application/octet-stream' });
+        }
+        (part.parts || []).forEach(listAttachments);
+      };
+      listAttachments(payload);
+
+      const { snippet, ...draft } = parseDraft(response.data);
+      return {
+        ...draft,
+        body: draftBodyOf(payload).text || snippet,
+        attachments: attachments.length > 0 ? attachments : undefined
+      };
+    } catch (error) {
+      console.error('Failed to read draft:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      throw new Error(`Failed to read draft: ${errorMessage}`);
+    }
+  }
+});
+
+export const updateDraftTool = createTool({
+  id: "update-draft",
+  description: "Change an existing Gmail draft. Only the given fields change; everything else, including attachments and threading, is kept.",
+  inputSchema: z.object({
+    draftId: z.string().describe("ID of the draft to update"),
+    to: z.string().optional().describe("New recipient email address(es), comma separated"),
+    cc: z.string().optional().describe("New Cc recipient email address(es); pass an empty string to remove them"),
+    bcc: z.string().optional().describe("New Bcc recipient email address(es); pass an empty string to remove them"),
+    subject: z.string().optional().describe("New subject line"),
+    body: z.string().optional().describe("New body content, plain text or HTML. Replaces the whole body"),
+    attachmentIds: z.array(z.string()).optional().describe("IDs of files the user uploaded to the chat to add as attachments"),
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    draftId: z.string().optional(),
+    message: z.string()
+  }),
+  execute: async ({ context, resourceId }) => {
+    const { draftId, to, cc, bcc, subject, body, attachmentIds = [], account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.compose');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      // The drafts API replaces the whole message, so rebuild it from the current draft
+      const current = await gmail.users.drafts.get({
+        userId: 'me',
+        id: draftId,
+        format: 'full'
+      });
+      const message = current.data.message;
+      if (!message?.id) throw new Error("Draft not found");
+      const headers = headerMap(message.payload?.headers);
+      const { attachments: existingAttachments, skipped } = await collectAttachments(gmail, message.id, message.payload);
+      if (skipped.length > 0) {
+        // Rebuilding without them would silently remove them from the draft
+        return {
+          success: false,
+          message: `Failed to update draft: its attachments are too large to rebuild it (${skipped.join(', ')}). Edit it in Gmail instead.`
+        };
+      }
+      const newAttachments = getUploads(userId, attachmentIds).map(({ filename, mimeType, data }) => ({ filename, mimeType, data }));
+
+      const rawEmail = composeEmail({
+        to: to ?? headers.to ?? '',
+        cc: (cc ?? headers.cc) || undefined,
+        bcc: (bcc ?? headers.bcc) || undefined,
+        subject: subject ?? headers.subject ?? '',
+        body: body ?? draftBodyOf(message.payload).html,
+        inReplyTo: headers['in-reply-to'],
+        references: headers.references,
+        attachments: [...existingAttachments, ...newAttachments]
+      });
+
+      const response = await gmail.users.drafts.update({
+        userId: 'me',
+        id: draftId,
+        requestBody: {
+          message: {
+            raw: rawEmail,
+            threadId: message.threadId ?? undefined
+          }
+        }
+      });
+
+      return {
+        success: true,
+        draftId: response.data.id ?? draftId,
+        message: "Draft updated"
+      };
+    } catch (error) {
+      console.error('Failed to update draft:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      return {
+        success: false,
+        message: `Failed to update draft: ${errorMessage}`
+      };
+    }
+  }
+});
+
+export const sendDraftTool = createTool({
+  id: "send-draft",
+  description: "Send an existing Gmail draft.",
+  inputSchema: z.object({
+    draftId: z.string().describe("ID of the draft to send"),
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    emailId: z.string().optional(),
+    threadId: z.string().optional(),
+    message: z.string()
+  }),
+  execute: async ({ context, resourceId }) => {
+    const { draftId, account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.send');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      const response = await gmail.users.drafts.send({
+        userId: 'me',
+        requestBody: { id: draftId }
+      });
+
+      console.log(`Draft ${draftId} sent successfully with ID: ${response.data.id}`);
+
+      return {
+        success: true,
+        emailId: response.data.id ?? undefined,
+        threadId: response.data.threadId ?? undefined,
+        message: "Draft sent successfully"
+      };
+    } catch (error) {
+      console.error('Failed to send draft:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      return {
+        success: false,
+        message: `Failed to send draft: ${errorMessage}`
+      };
+    }
+  }
+});
+
+export const deleteDraftTool = createTool({
+  id: "delete-draft",
+  description: "Permanently delete a Gmail draft.",
+  inputSchema: z.object({
+    draftId: z.string().describe("ID of the draft to delete"),
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string()
+  }),
+  execute: async ({ context, resourceId }) => {
+    const { draftId, account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.compose');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      await gmail.users.drafts.delete({
+        userId: 'me',
+        id: draftId
+      });
+
+      return {
+        success: true,
+        message: "Draft deleted"
+      };
+    } catch (error) {
+      console.error('Failed to delete draft:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      return {
+        success: false,
+        message: `Failed to delete draft: ${errorMessage}`
+      };
+    }
+  }
+});
+
+export const getAttachmentTool = createTool({
+  id: "get-attachment",
+  description: "Download an email attachment, send it to the user's chat as a file and/or extract its text (text and PDF files) so it can be summarized.",
+  inputSchema: z.object({
+    emailId: z.string().describe("ID of the email containing the attachment"),
+    attachmentId: z.string().optional().describe("Attachment ID from readEmailTool"),
+    filename: z.string().optional().describe("Attachment filename, used when the attachment ID is unknown"),
+    sendToChat: z.boolean().optional().default(true).describe("Send the file to the user's chat"),
+    extractText: z.boolean().optional().default(false).describe("Return the text content of text and PDF attachments, e.g. to summarize them"),
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    filename: z.string().optional(),
+    mimeType: z.string().optional(),
+    size: z.number().optional(),
+    sentToChat: z.boolean().optional(),
+    text: z.string().optional(),
+    textTruncated: z.boolean().optional(),
+    message: z.string()
+  }),
+  execute: async ({ context, resourceId }) => {
+    const { emailId, attachmentId, filename, sendToChat = true, extractText = false, account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.read');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+      if (!attachmentId && !filename) {
+        throw new Error("Either attachmentId or filename is required");
+      }
+
+      const message = await gmail.users.messages.get({
+        userId: 'me',
+        id: emailId,
+        format: 'full'
+      });
+      const part = findAttachmentPart(message.data.payload, attachmentId, filename);
+      if (!part) {
+        throw new Error(`Attachment ${filename || attachmentId} not found in this email`);
+      }
+      const mimeType: string = part.mimeType || 'application/octet-stream';
+      if ((part.body.size || 0) > MAX_ATTACHMENT_BYTES) {
+        throw new Error(`${part.filename} is larger than the ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB limit`);
+      }
+
+      const attachment = await gmail.users.messages.attachments.get({
+        userId: 'me',
+        messageId: emailId,
+        id: part.body.attachmentId
+      });
+      if (!attachment.data.data) throw new Error("Attachment has no content");
+      const data = Buffer.from(attachment.data.data, 'base64url');
+
+      let text: string | undefined;
+      let textTruncated = false;
+      if (extractText) {
+        if (!canExtractText(part.filename, mimeType)) {
+          throw new Error(`Text can only be extracted from text and PDF attachments, not ${mimeType}`);
+        }
+        const extracted = (await extractAttachmentText(part.filename, mimeType, data)) || '';
+        textTruncated = extracted.length > MAX_ATTACHMENT_TEXT_CHARS;
+        text = textTruncated ? extracted.slice(0, MAX_ATTACHMENT_TEXT_CHARS) : extracted;
+      }
+
+      if (sendToChat) {
+        await sendDocumentToUser(userId, { filename: part.filename, mimeType, data });
+      }
+
+      return {
+        success: true,
+        filename: part.filename,
+        mimeType,
+        size: data.length,
+        sentToChat: sendToChat,
+        text,
+        textTruncated: extractText ? textTruncated : undefined,
+        message: sendToChat ? `Sent ${part.filename} to the chat` : `Fetched ${part.filename}`
+      };
+    } catch (error) {
+      console.error('Failed to get attachment:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      return {
+        success: false,
+        message: `Failed to get attachment: ${errorMessage}`
+      };
+    }
+  }
+});
+
+// Keeps a long conversation compact enough to summarize in one go
+const MAX_THREAD_MESSAGE_CHARS = 3000;
+
+export const getThreadTool = createTool({
+  id: "get-thread",
+  description: "Get a whole email conversation (thread) in order, with quoted text and signatures removed from each message. Use it to summarize or catch up on a conversation.",
+  inputSchema: z.object({
+    threadId: z.string().optional().describe("ID of the thread"),
+    emailId: z.string().optional().describe("ID of any email in the thread, used when the thread ID is unknown"),
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    threadId: z.string(),
+    subject: z.string(),
+    participants: z.array(z.string()),
+    messageCount: z.number(),
+    firstDate: z.string().optional(),
+    lastDate: z.string().optional(),
+    messages: z.array(z.object({
+      id: z.string(),
+      from: z.string(),
+      to: z.string(),
+      cc: z.string().optional(),
+      date: z.string(),
+      body: z.string(),
+      attachments: z.array(z.string()).optional()
+    }))
+  }),
+  execute: async ({ context, resourceId }) => {
+    const { threadId, emailId, account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.read');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      let id = threadId;
+      if (!id && emailId) {
+        const message = await gmail.users.messages.get({ userId: 'me', id: emailId, format: 'minimal' });
+        id = message.data.threadId ?? undefined;
+      }
+      if (!id) throw new Error("Either threadId or emailId is required");
+
+      const response = await gmail.users.threads.get({
+        userId: 'me',
+        id,
+        format: 'full'
+      });
+
+      const participants = new Map<string, string>();
+      const messages = (response.data.messages || []).map(message => {
+        const headers = headerMap(message.payload?.headers);
+        for (const address of [headers.from, headers.to, headers.cc].flatMap(splitAddressList)) {
+          const email = emailAddressOf(address);
+          if (!participants.has(email)) participants.set(email, address);
+        }
+
+        const attachments: string[] = [];
+        const listAttachments = (part: any) => {
+          if (!part) return;
+          if (part.filename) attachments.push(part.filename);
+          (part.parts || []).forEach(listAttachments);
+        };
+        listAttachments(message.payload);
+
+        const body = stripQuotedText(bodyTextOf(message.payload) || message.snippet || '');
+        return {
+          id: message.id || 'unknown',
+          from: headers.from || '(Unknown Sender)',
+          to: headers.to || '',
+          cc: headers.cc || undefined,
+          date: message.internalDate ? new Date(Number(message.internalDate)).toISOString() : headers.date || '',
+          body: body.length > MAX_THREAD_MESSAGE_CHARS ? `${body.slice(0, MAX_THREAD_MESSAGE_CHARS)}... [truncated]` : body,
+          attachments: attachments.length > 0 ? attachments : undefined
+        };
+      });
+
+      const firstHeaders = headerMap(response.data.messages?.[0]?.payload?.headers);
+      return {
+        threadId: response.data.id || id,
+        subject: firstHeaders.subject || '(No Subject)',
+        participants: [...participants.values()],
+        messageCount: messages.length,
+        firstDate: messages[0]?.date || undefined,
+        lastDate: messages[messages.length - 1]?.date || undefined,
+        messages
+      };
+    } catch (error) {
+      console.error('Failed to get thread:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      throw new Error(`Failed to get thread: ${errorMessage}`);
+    }
+  }
+});
+
+// Label changes behind each message state action
+const STATE_CHANGES = {
+  markRead: { addLabelIds: [], removeLabelIds: ['UNREAD'] },
+  markUnread: { addLabelIds: ['UNREAD'], removeLabelIds: [] },
+  star: { addLabelIds: ['STARRED'], removeLabelIds: [] },
+  unstar: { addLabelIds: [], removeLabelIds: ['STARRED'] },
+  archive: { addLabelIds: [], removeLabelIds: ['INBOX'] },
+  moveToInbox: { addLabelIds: ['INBOX'], removeLabelIds: ['SPAM', 'TRASH'] },
+  markImportant: { addLabelIds: ['IMPORTANT'], removeLabelIds: [] },
+  markNotImportant: { addLabelIds: [], removeLabelIds: ['IMPORTANT'] },
+  markSpam: { addLabelIds: ['SPAM'], removeLabelIds: ['INBOX'] },
+  markNotSpam: { addLabelIds: ['INBOX'], removeLabelIds: ['SPAM'] }
+} satisfies { [action: string]: { addLabelIds: string[]; removeLabelIds: string[] } };
+
+type StateAction = keyof typeof STATE_CHANGES;
+const STATE_ACTIONS = Object.keys(STATE_CHANGES) as [StateAction, ...StateAction[]];
+// Larger selections belong in bulkModifyEmailsTool, which previews before changing anything
+const MAX_STATE_CHANGE_IDS = 50;
+
+// Most messages one bulk request may touch, so a broad query can't empty a mailbox
+const MAX_BULK_MESSAGES = 500;
+// batchModify accepts at most 1000 IDs per call
+const BATCH_MODIFY_CHUNK = 1000;
+const BULK_SAMPLE_SIZE = 5;
+const BULK_ACTIONS = ['archive', 'markRead', 'markUnread', 'trash', 'addLabel', 'removeLabel'] as const;
+type BulkAction = typeof BULK_ACTIONS[number];
+
+function bulkLabelChanges(action: BulkAction, labelId?: string): { addLabelIds: string[]; removeLabelIds: string[] } {
+  switch (action) {
+    case 'archive':
+    case 'markRead':
+    case 'markUnread':
+      return STATE_CHANGES[action];
+    case 'trash': return { addLabelIds: ['TRASH'], removeLabelIds: [] };
+    case 'addLabel': return { addLabelIds: [labelId!], removeLabelIds: [] };
+    case 'removeLabel': return { addLabelIds: [], removeLabelIds: [labelId!] };
+  }
+}
+
+function describeBulkAction(action: BulkAction, label?: string): string {
+  switch (action) {
+    case 'archive': return 'archive';
+    case 'markRead': return 'mark as read';
+    case 'markUnread': return 'mark as unread';
+    case 'trash': return 'move to trash';
+    case 'addLabel': return `add the label "${label}" to`;
+    case 'removeLabel': return `remove the label "${label}" from`;
+  }
+}
+
+export const bulkModifyEmailsTool = createTool({
+  id: "bulk-modify-emails",
+  description: `Archive, mark read or unread, trash, or add or remove a label on every email matching a Gmail search query (at most ${MAX_BULK_MESSAGES} per request). Returns a dry-run preview and asks the user to confirm it with a button in the chat; nothing changes until they press it.`,
+  inputSchema: z.object({
+    query: z.string().describe("Gmail search query selecting the emails, e.g. 'from:newsletter@example.com older_than:30d'"),
+    action: z.enum(BULK_ACTIONS).describe("What to do with the matching emails"),
+    label: z.string().optional().describe("Label name for addLabel and removeLabel"),
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    dryRun: z.boolean().optional(),
+    matchCount: z.number().optional(),
+    capped: z.boolean().optional(),
+    sample: z.array(z.object({
+      id: z.string(),
+      from: z.string(),
+      subject: z.string(),
+      date: z.string()
+    })).optional(),
+    awaitingConfirmation: z.boolean().optional(),
+    message: z.string()
+  }),
+  execute: async ({ context, resourceId }) => {
+    const { query, action, label, account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.modify');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+      if ((action === 'addLabel' || action === 'removeLabel') && !label) {
+        throw new Error(`A label name is required for ${action}`);
+      }
+      const cacheKey = await labelCacheKey(userId, account);
+
+      // Dry run: collect up to one more than the cap to know whether the query matches too much
+      if (label) await resolveLabelIds(gmail, cacheKey, [label]);
+      const messageIds: string[] = [];
+      let pageToken: string | undefined;
+      do {
+        const response = await gmail.users.messages.list({
+          userId: 'me',
+          q: query,
+          maxResults: MAX_BULK_MESSAGES,
+          pageToken
+        });
+        for (const message of response.data.messages || []) {
+          if (message.id) messageIds.push(message.id);
+        }
+        pageToken = response.data.nextPageToken ?? undefined;
+      } while (pageToken && messageIds.length <= MAX_BULK_MESSAGES);
+
+      if (messageIds.length === 0) {
+        return { success: true, dryRun: true, matchCount: 0, message: "No emails match this query" };
+      }
+
+      const capped = messageIds.length > MAX_BULK_MESSAGES;
+      const targetIds = messageIds.slice(0, MAX_BULK_MESSAGES);
+      const sample = await mapWithConcurrency(targetIds.slice(0, BULK_SAMPLE_SIZE), LIST_CONCURRENCY, async (id) => {
+        const metadata = await gmail.users.messages.get({
+          userId: 'me',
+          id,
+          format: 'metadata',
+          metadataHeaders: ['From', 'Subject', 'Date']
+        });
+        const headers = headerMap(metadata.data.payload?.headers);
+        return {
+          id,
+          from: headers.from || '(Unknown Sender)',
+          subject: headers.subject || '(No Subject)',
+          date: headers.date || ''
+        };
+      });
+
+      // The change applies to exactly the previewed messages, even if new mail matches the query later
+      const summary = `${describeBulkAction(action, label)} ${targetIds.length} email(s)`;
+      await requestConfirmation(userId, {
+        prompt: `Bulk change: ${summary} matching "${query}"` +
+          (capped ? ` (only the newest ${MAX_BULK_MESSAGES} of more matches)` : '') + `.\n\n` +
+          `For example:\n${sample.map(email => `• ${email.from}: ${email.subject}`).join('\n')}`,
+        run: async () => {
+          const confirmedGmail = await getGmailService(userId, account, 'gmail.modify');
+          if (!confirmedGmail) {
+              throw new Error("Google Authentication required. Please use /connect_google.");
+          }
+          const labelId = label ? (await resolveLabelIds(confirmedGmail, cacheKey, [label])).ids[0] : undefined;
+          const changes = bulkLabelChanges(action, labelId);
+          for (let i = 0; i < targetIds.length; i += BATCH_MODIFY_CHUNK) {
+            await confirmedGmail.users.messages.batchModify({
+              userId: 'me',
+              requestBody: { ids: targetIds.slice(i, i + BATCH_MODIFY_CHUNK), ...changes }
+            });
+          }
+          console.log(`Bulk ${action} applied to ${targetIds.length} message(s) for user ${userId}`);
+          return `Done: ${summary}`;
+        }
+      });
+
+      return {
+        success: true,
+        dryRun: true,
+        matchCount: targetIds.length,
+        capped,
+        sample,
+        awaitingConfirmation: true,
+        message: `Dry run: this would ${summary}` +
+          (capped ? ` (the query matches more than ${MAX_BULK_MESSAGES}; only the newest ${MAX_BULK_MESSAGES} are included)` : '') +
+          `. The user has been asked to confirm with a button in the chat; nothing changes until they press it.`
+      };
+    } catch (error) {
+      console.error('Failed to modify emails in bulk:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      return {
+        success: false,
+        message: `Failed to modify emails in bulk: ${errorMessage}`
+      };
+    }
+  }
+});
+
+export const setEmailStateTool = createTool({
+  id: "set-email-state",
+  description: "Mark emails read or unread, star or unstar them, archive them or move them back to the inbox, mark them important or not, or report them as spam or not spam. Works on one email or a short list of email IDs.",
+  inputSchema: z.object({
+    emailIds: z.array(z.string()).min(1).max(MAX_STATE_CHANGE_IDS).describe(`IDs of the emails to change (at most ${MAX_STATE_CHANGE_IDS})`),
+    action: z.enum(STATE_ACTIONS).describe("The change to make"),
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    results: z.array(z.object({
+      emailId: z.string(),
+      success: z.boolean(),
+      error: z.string().optional()
+    })).optional(),
+    message: z.string()
+  }),
+  execute: async ({ context, resourceId }) => {
+    const { emailIds, action, account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.modify');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      const changes = STATE_CHANGES[action];
+      const results = await mapWithConcurrency(emailIds, LIST_CONCURRENCY, async (emailId) => {
+        try {
+          await gmail.users.messages.modify({
+            userId: 'me',
+            id: emailId,
+            requestBody: changes
+          });
+          return { emailId, success: true };
+        } catch (error) {
+          return { emailId, success: false, error: error instanceof Error ? error.message : String(error) };
+        }
+      });
+
+      const succeeded = results.filter(result => result.success).length;
+      return {
+        success: succeeded === results.length,
+        results,
+        message: `${action}: ${succeeded} of ${results.length} email(s) updated` +
+          (succeeded < results.length ? `, ${results.length - succeeded} failed` : '')
+      };
+    } catch (error) {
+      console.error('Failed to change email state:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      return {
+        success: false,
+        message: `Failed to change email state: ${errorMessage}`
+      };
+    }
+  }
+});
+
+// Furthest ahead an email can be scheduled
+const MAX_SCHEDULE_AHEAD_MS = 365 * 24 * 60 * 60 * 1000;
+
+export const scheduleEmailTool = createTool({
+  id: "schedule-email",
+  description: "Schedule an email to be sent automatically at a future time. The user can list or cancel scheduled emails with /scheduled.",
+  inputSchema: z.object({
+    to: z.string().describe("Recipient email address(es), comma separated"),
+    cc: z.string().optional().describe("Cc recipient email address(es), comma separated"),
+    bcc: z.string().optional().describe("Bcc recipient email address(es), comma separated"),
+    subject: z.string().describe("Email subject line"),
+    body: z.string().describe("Email body content, plain text or HTML"),
+    sendAt: z.string().describe("When to send, in ISO 8601 format with timezone offset (e.g., '2026-11-02T09:00:00+01:00')"),
+    attachmentIds: z.array(z.string()).optional().describe("IDs of files the user uploaded to the chat to attach"),
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    scheduledId: z.string().optional(),
+    sendAt: z.string().optional(),
+    message: z.string()
+  }),
+  execute: async ({ context, resourceId }) => {
+    const { to, cc, bcc, subject, body, sendAt, attachmentIds = [], account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      // Check now that the account may send, rather than failing at send time
+      const gmail = await getGmailService(userId, account, 'gmail.send');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      const sendTime = new Date(sendAt).getTime();
+      if (Number.isNaN(sendTime)) throw new Error(`Invalid send time: ${sendAt}`);
+      if (sendTime <= Date.now()) throw new Error("The send time is in the past; use sendEmailTool to send now");
+      if (sendTime > Date.now() + MAX_SCHEDULE_AHEAD_MS) throw new Error("Emails can be scheduled at most a year ahead");
+
+      const attachments = getUploads(userId, attachmentIds).map(({ filename, mimeType, data }) => ({
+        filename,
+        mimeType,
+        data: data.toString('base64')
+      }));
+      // Keep the alias rather than "the default account", so the email goes out from the
+      // account it was written for and is cancelled if that account is disconnected
+      const linked = await getLinkedAccount(userId, account);
+      const scheduled = await getScheduledEmailQueue().schedule(
+        userId,
+        linked?.alias ?? account,
+        { to, cc, bcc, subject, body, attachments },
+        sendTime
+      );
+
+      return {
+        success: true,
+        scheduledId: scheduled.id,
+        sendAt: new Date(sendTime).toISOString(),
+        message: `Email scheduled for ${formatInTimeZone(sendTime, await getUserTimeZone(userId))}`
+      };
+    } catch (error) {
+      console.error('Failed to schedule email:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      return {
+        success: false,
+        message: `Failed to schedule email: ${errorMessage}`
+      };
+    }
+  }
+});
+
+// What a filter matches; Gmail applies it to new mail as it arrives
+const filterCriteriaSchema = z.object({
+  from: z.string().optional().describe("Sender address, domain or name, e.g. 'notifications@github.com'"),
+  to: z.string().optional().describe("Recipient address"),
+  subject: z.string().optional().describe("Words in the subject"),
+  query: z.string().optional().describe("Any other Gmail search query the email must match, e.g. 'unsubscribe'"),
+  negatedQuery: z.string().optional().describe("Gmail search query the email must NOT match"),
+  hasAttachment: z.boolean().optional().describe("Only emails with attachments"),
+  excludeChats: z.boolean().optional().describe("Skip chat messages")
+});
+
+// What a filter does with matching mail. Labels are given by name.
+const filterActionSchema = z.object({
+  addLabels: z.array(z.string()).optional().describe("Label names to apply"),
+  removeLabels: z.array(z.string()).optional().describe("Label names to remove"),
+  archive: z.boolean().optional().describe("Skip the inbox"),
+  markRead: z.boolean().optional().describe("Mark as read"),
+  star: z.boolean().optional().describe("Star it"),
+  markImportant: z.boolean().optional().describe("Always mark as important"),
+  neverImportant: z.boolean().optional().describe("Never mark as important"),
+  neverSpam: z.boolean().optional().describe("Never send to spam"),
+  trash: z.boolean().optional().describe("Delete it")
+});
+
+type FilterCriteria = z.infer<typeof filterCriteriaSchema>;
+type FilterAction = z.infer<typeof filterActionSchema>;
+
+// System label changes behind each filter action flag
+const FILTER_FLAG_CHANGES = {
+  archive: { addLabelIds: [], removeLabelIds: ['INBOX'] },
+  markRead: { addLabelIds: [], removeLabelIds: ['UNREAD'] },
+  star: { addLabelIds: ['STARRED'], removeLabelIds: [] },
+  markImportant: { addLabelIds: ['IMPORTANT'], removeLabelIds: [] },
+  neverImportant: { addLabelIds: [], removeLabelIds: ['IMPORTANT'] },
+  neverSpam: { addLabelIds: [], removeLabelIds: ['SPAM'] },
+  trash: { addLabelIds: ['TRASH'], removeLabelIds: [] }
+} satisfies { [flag: string]: { addLabelIds: string[]; removeLabelIds: string[] } };
+
+type FilterFlag = keyof typeof FILTER_FLAG_CHANGES;
+const FILTER_FLAGS = Object.keys(FILTER_FLAG_CHANGES) as FilterFlag[];
+
+// Existing messages counted for the preview; beyond this the preview says "more than"
+const MAX_FILTER_PREVIEW_COUNT = 500;
+function quoteSearchTerm(value: string): string {
+  return /[\s()"]/.test(value) ? `(${value})` : value;
+}
+
+// The Gmail search query matching the same mail as the filter criteria
+function filterSearchQuery(criteria: FilterCriteria): string {
+  const terms: string[] = [];
+  if (criteria.from) terms.push(`from:${quoteSearchTerm(criteria.from)}`);
+  if (criteria.to) terms.push(`to:${quoteSearchTerm(criteria.to)}`);
+  if (criteria.subject) terms.push(`subject:${quoteSearchTerm(criteria.subject)}`);
+  if (criteria.query) terms.push(criteria.query);
+  if (criteria.negatedQuery) terms.push(`-(${criteria.negatedQuery})`);
+  if (criteria.hasAttachment) terms.push('has:attachment');
+  return terms.join(' ');
+}
+
+function describeFilterCriteria(criteria: gmail_v1.Schema$FilterCriteria): string {
+  const parts: string[] = [];
+  if (criteria.from) parts.push(`from ${criteria.from}`);
+  if (criteria.to) parts.push(`to ${criteria.to}`);
+  if (criteria.subject) parts.push(`subject contains "${criteria.subject}"`);
+  if (criteria.query) parts.push(`matching "${criteria.query}"`);
+  if (criteria.negatedQuery) parts.push(`not matching "${criteria.negatedQuery}"`);
+  if (criteria.hasAttachment) parts.push('with attachments');
+  if (criteria.excludeChats) parts.push('excluding chats');
+  return parts.length > 0 ? `Emails ${parts.join(', ')}` : 'All emails';
+}
+
+function describeFilterAction(action: gmail_v1.Schema$FilterAction, labelNames: Map<string, string>): string {
+  const added = new Set(action.addLabelIds || []);
+  const removed = new Set(action.removeLabelIds || []);
+  const parts: string[] = [];
+  for (const flag of FILTER_FLAGS) {
+    const change = FILTER_FLAG_CHANGES[flag];
+    if (change.addLabelIds.every(id => added.has(id)) && change.removeLabelIds.every(id => removed.has(id))) {
+      parts.push(flag.replace(/[A-Z]/g, letter => ` ${letter.toLowerCase()}`));
+      change.addLabelIds.forEach(id => added.delete(id));
+      change.removeLabelIds.forEach(id => removed.delete(id));
+    }
+  }
+  for (const id of added) parts.push(`apply label "${labelNames.get(id) || id}"`);
+  for (const id of removed) parts.push(`remove label "${labelNames.get(id) || id}"`);
+  if (action.forward) parts.push(`forward to ${action.forward}`);
+  return parts.length > 0 ? parts.join(', ') : 'do nothing';
+}
+
+function labelNameMap(labels: gmail_v1.Schema$Label[]): Map<string, string> {
+  return new Map(labels.map(label => [label.id || '', label.name || '']));
+}
+
+// Count existing messages matching a query, stopping once the count passes the limit
+async function countMatchingMessages(gmail: gmail_v1.Gmail, query: string, limit: number): Promise<number> {
+  let count = 0;
+  let pageToken: string | undefined;
+  do {
+    const response = await gmail.users.messages.list({ userId: 'me', q: query, maxResults: limit, pageToken });
+    count += (response.data.messages || []).length;
+    pageToken = response.data.nextPageToken ?? undefined;
+  } while (pageToken && count <= limit);
+  return count;
+}
+
+export const listFiltersTool = createTool({
+  id: "list-filters",
+  description: "List the user's Gmail filters: which emails each one matches and what it does with them.",
+  inputSchema: z.object({
+    account: accountSchema
+  }),
+  outputSchema: z.array(z.object({
+    id: z.string(),
+    criteria: z.string(),
+    action: z.string()
+  })),
+  execute: async ({ context, resourceId }) => {
+    const { account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.read');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      const response = await gmail.users.settings.filters.list({ userId: 'me' });
+      const labelNames = labelNameMap(await getLabels(gmail, await labelCacheKey(userId, account)));
+      return (response.data.filter || []).map(filter => ({
+        id: filter.id || '',
+        criteria: describeFilterCriteria(filter.criteria || {}),
+        action: describeFilterAction(filter.action || {}, labelNames)
+      }));
+    } catch (error) {
+      console.error('Failed to list filters:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      throw new Error(`Failed to list filters: ${errorMessage}`);
+    }
+  }
+});
+
+export const createFilterTool = createTool({
+  id: "create-filter",
+  description: "Create a Gmail filter that acts on new mail automatically, e.g. archive GitHub notifications and label them 'dev'. Returns a preview with the number of existing emails that match and asks the user to confirm it with a button in the chat; nothing is created until they press it. The filter only affects mail arriving from then on.",
+  inputSchema: z.object({
+    criteria: filterCriteriaSchema.describe("Which emails the filter matches; give at least one field"),
+    action: filterActionSchema.describe("What to do with matching emails; give at least one change"),
+    createMissingLabels: z.boolean().optional().default(false).describe("Create labels in addLabels that don't exist yet"),
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    preview: z.boolean().optional(),
+    criteria: z.string().optional(),
+    action: z.string().optional(),
+    matchingEmails: z.number().optional(),
+    awaitingConfirmation: z.boolean().optional(),
+    message: z.string()
+  }),
+  execute: async ({ context, resourceId }) => {
+    const { criteria, action, createMissingLabels = false, account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.settings');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+      const query = filterSearchQuery(criteria);
+      if (!query && !criteria.excludeChats) {
+        throw new Error("A filter needs at least one criterion, e.g. a sender or subject");
+      }
+      const cacheKey = await labelCacheKey(userId, account);
+
+      // Preview: resolve what can be resolved now; missing labels are only allowed when they will be created
+      const addLabelIds: string[] = [];
+      const newLabels: string[] = [];
+      for (const name of action.addLabels || []) {
+        const label = await findLabel(gmail, cacheKey, name);
+        if (label?.id) addLabelIds.push(label.id);
+        else newLabels.push(name);
+      }
+      if (newLabels.length > 0 && !createMissingLabels) {
+        throw new Error(`Unknown label(s): ${newLabels.join(', ')}. Set createMissingLabels to create them with the filter.`);
+      }
+      const { ids: removeLabelIds } = await resolveLabelIds(gmail, cacheKey, action.removeLabels || []);
+
+      const flagChanges = FILTER_FLAGS.filter(flag => action[flag]).map(flag => FILTER_FLAG_CHANGES[flag]);
+      const filterAction: gmail_v1.Schema$FilterAction = {
+        addLabelIds: [...new Set([...addLabelIds, ...flagChanges.flatMap(change => change.addLabelIds)])],
+        removeLabelIds: [...new Set([...removeLabelIds, ...flagChanges.flatMap(change => change.removeLabelIds)])]
+      };
+      if (filterAction.addLabelIds!.length + filterAction.removeLabelIds!.length + newLabels.length === 0) {
+        throw new Error("A filter needs at least one action, e.g. archive or a label to apply");
+      }
+      const filterCriteria: gmail_v1.Schema$FilterCriteria = {
+        from: criteria.from,
+        to: criteria.to,
+        subject: criteria.subject,
+        query: criteria.query,
+        negatedQuery: criteria.negatedQuery,
+        hasAttachment: criteria.hasAttachment,
+        excludeChats: criteria.excludeChats
+      };
+
+      const matchingEmails = query ? await countMatchingMessages(gmail, query, MAX_FILTER_PREVIEW_COUNT) : 0;
+      const matchText = matchingEmails > MAX_FILTER_PREVIEW_COUNT
+        ? `more than ${MAX_FILTER_PREVIEW_COUNT} existing emails`
+        : `${matchingEmails} existing email(s)`;
+
+      const actionText = [
+        describeFilterAction(filterAction, labelNameMap(await getLabels(gmail, cacheKey))),
+        ...newLabels.map(name => `apply new label "${name}"`)
+      ].join(', ');
+      await requestConfirmation(userId, {
+        prompt: `New Gmail filter: ${describeFilterCriteria(filterCriteria)} -> ${actionText}.\n\n` +
+          `It matches ${matchText} right now, but only acts on mail arriving from now on.`,
+        run: async () => {
+          const confirmedGmail = await getGmailService(userId, account, 'gmail.settings');
+          if (!confirmedGmail) {
+              throw new Error("Google Authentication required. Please use /connect_google.");
+          }
+          // Labels are created only now, so an unconfirmed preview leaves nothing behind
+          const { ids: newLabelIds, created } = await resolveLabelIds(confirmedGmail, cacheKey, newLabels, true);
+          const response = await confirmedGmail.users.settings.filters.create({
+            userId: 'me',
+            requestBody: {
+              criteria: filterCriteria,
+              action: {
+                ...filterAction,
+                addLabelIds: [...new Set([...(filterAction.addLabelIds || []), ...newLabelIds])]
+              }
+            }
+          });
+          console.log(`Filter ${response.data.id} created for user ${userId}`);
+          return `Filter created` + (created.length > 0 ? `, with new label(s) ${created.join(', ')}` : '');
+        }
+      });
+
+      return {
+        success: true,
+        preview: true,
+        criteria: describeFilterCriteria(filterCriteria),
+        action: actionText,
+        matchingEmails: Math.min(matchingEmails, MAX_FILTER_PREVIEW_COUNT),
+        awaitingConfirmation: true,
+        message: `Preview: ${describeFilterCriteria(filterCriteria)} -> ${actionText}. ` +
+          `This matches ${matchText} right now; the filter only acts on new mail (use bulkModifyEmailsTool for existing ones). ` +
+          `The user has been asked to confirm with a button in the chat; nothing is created until they press it.`
+      };
+    } catch (error) {
+      console.error('Failed to create filter:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      return {
+        success: false,
+        message: `Failed to create filter: ${errorMessage}`
+      };
+    }
+  }
+});
+
+export const deleteFilterTool = createTool({
+  id: "delete-filter",
+  description: "Delete a Gmail filter by its ID from listFiltersTool. Emails it already sorted are not changed.",
+  inputSchema: z.object({
+    filterId: z.string().describe("ID of the filter to delete"),
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string()
+  }),
+  execute: async ({ context, resourceId }) => {
+    const { filterId, account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.settings');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      await gmail.users.settings.filters.delete({
+        userId: 'me',
+        id: filterId
+      });
+
+      return {
+        success: true,
+        message: `Filter ${filterId} deleted`
+      };
+    } catch (error) {
+      console.error('Failed to delete filter:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      return {
+        success: false,
+        message: `Failed to delete filter: ${errorMessage}`
+      };
+    }
+  }
+});
+
+const DEFAULT_NEWSLETTER_SCAN_DAYS = 30;
+const MAX_NEWSLETTER_SCAN_DAYS = 90;
+// Most messages inspected per scan; each one costs a metadata request
+const MAX_NEWSLETTER_SCAN_MESSAGES = 500;
+const NEWSLETTER_HEADERS = ['From', 'Subject', 'Date', 'List-Id', 'List-Unsubscribe', 'List-Unsubscribe-Post'];
+
+// "Example News" <news@example.com> -> Example News
+function displayNameOf(from: string): string {
+  const name = from.replace(/<[^>]*>/, '').replace(/"/g, '').trim();
+  return name || emailAddressOf(from);
+}
+
+export const findNewslettersTool = createTool({
+  id: "find-newsletters",
+  description: "Scan recent mail for newsletters and other bulk mail (emails with List-Unsubscribe or List-Id headers) and group them by sender, with how often each one mails and how it can be unsubscribed from.",
+  inputSchema: z.object({
+    days: z.number().min(1).max(MAX_NEWSLETTER_SCAN_DAYS).optional().default(DEFAULT_NEWSLETTER_SCAN_DAYS).describe("How many days back to scan"),
+    maxMessages: z.number().min(1).max(MAX_NEWSLETTER_SCAN_MESSAGES).optional().default(300).describe("Most recent emails to inspect"),
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    scannedEmails: z.number(),
+    days: z.number(),
+    senders: z.array(z.object({
+      sender: z.string(),
+      name: z.string(),
+      listId: z.string().optional(),
+      emailCount: z.number(),
+      perWeek: z.number(),
+      lastReceived: z.string(),
+      latestEmailId: z.string(),
+      latestSubject: z.string(),
+      unsubscribe: z.enum(['one-click', 'email', 'link', 'none']),
+      searchQuery: z.string()
+    }))
+  }),
+  execute: async ({ context, resourceId }) => {
+    const { days = DEFAULT_NEWSLETTER_SCAN_DAYS, maxMessages = 300, account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.read');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      const messageIds: string[] = [];
+      let pageToken: string | undefined;
+      do {
+        const response = await gmail.users.messages.list({
+          userId: 'me',
+          q: `newer_than:${days}d -from:me -in:chats`,
+          maxResults: Math.min(maxMessages - messageIds.length, MAX_NEWSLETTER_SCAN_MESSAGES),
+          pageToken
+        });
+        for (const message of response.data.messages || []) {
+          if (message.id) messageIds.push(message.id);
+        }
+        pageToken = response.data.nextPageToken ?? undefined;
+      } while (pageToken && messageIds.length < maxMessages);
+
+      const messages = await mapWithConcurrency(messageIds, LIST_CONCURRENCY, async (id) => {
+        try {
+          const response = await gmail.users.messages.get({
+            userId: 'me',
+            id,
+            format: 'metadata',
+            metadataHeaders: NEWSLETTER_HEADERS
+          });
+          return { id, headers: headerMap(response.data.payload?.headers), internalDate: Number(response.data.internalDate || 0) };
+        } catch (error) {
+          // The message may have been deleted since it was listed
+          console.warn(`Could not inspect message ${id} while scanning for newsletters:`, error);
+          return null;
+        }
+      });
+
+      // Messages arrive newest first, so the first one seen for a sender is its latest
+      const groups: Map<string, {
+        sender: string;
+        name: string;
+        listId?: string;
+        emailCount: number;
+        lastReceived: number;
+        latestEmailId: string;
+        latestSubject: string;
+        options: UnsubscribeOptions;
+      }> = new Map();
+      for (const message of messages) {
+        if (!message) continue;
+        const { headers } = message;
+        if (!headers['list-unsubscribe'] && !headers['list-id']) continue;
+
+        const sender = emailAddressOf(headers.from || '');
+        const listId = listIdOf(headers['list-id']);
+        const key = listId || sender;
+        const group = groups.get(key);
+        if (group) {
+          group.emailCount++;
+          continue;
+        }
+        groups.set(key, {
+          sender,
+          name: displayNameOf(headers.from || sender),
+          listId,
+          emailCount: 1,
+          lastReceived: message.internalDate,
+          latestEmailId: message.id,
+          latestSubject: headers.subject || '(No Subject)',
+          options: parseListUnsubscribe(headers['list-unsubscribe'], headers['list-unsubscribe-post'])
+        });
+      }
+
+      const senders = [...groups.values()]
+        .sort((a, b) => b.emailCount - a.emailCount)
+        .map(group => ({
+          sender: group.sender,
+          name: group.name,
+          listId: group.listId,
+          emailCount: group.emailCount,
+          perWeek: Math.round(group.emailCount / (days / 7) * 10) / 10,
+          lastReceived: new Date(group.lastReceived).toISOString(),
+          latestEmailId: group.latestEmailId,
+          latestSubject: group.latestSubject,
+          unsubscribe: unsubscribeMethodOf(group.options),
+          searchQuery: group.listId ? `list:${group.listId}` : `from:${group.sender}`
+        }));
+
+      return { scannedEmails: messageIds.length, days, senders };
+    } catch (error) {
+      console.error('Failed to scan for newsletters:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      throw new Error(`Failed to scan for newsletters: ${errorMessage}`);
+    }
+  }
+});
+
+export const unsubscribeTool = createTool({
+  id: "unsubscribe",
+  description: "Unsubscribe from a newsletter using the List-Unsubscribe header of one of its emails: a one-click HTTPS request or an unsubscribe email. It shows how it would unsubscribe and asks the user to confirm with a button in the chat; nothing is sent until they press it.",
+  inputSchema: z.object({
+    emailId: z.string().describe("ID of an email from the sender, e.g. latestEmailId from findNewslettersTool"),
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    preview: z.boolean().optional(),
+    method: z.enum(['one-click', 'email', 'link', 'none']).optional(),
+    link: z.string().optional(),
+    awaitingConfirmation: z.boolean().optional(),
+    message: z.string()
+  }),
+  execute: async ({ context, resourceId }) => {
+    const { emailId, account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const gmail = await getGmailService(userId, account, 'gmail.read');
+      if (!gmail) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+      const response = await gmail.users.messages.get({
+        userId: 'me',
+        id: emailId,
+        format: 'metadata',
+        metadataHeaders: NEWSLETTER_HEADERS
+      });
+      const headers = headerMap(response.data.payload?.headers);
+      const sender = headers.from || '(Unknown Sender)';
+      const options = parseListUnsubscribe(headers['list-unsubscribe'], headers['list-unsubscribe-post']);
+      const method = unsubscribeMethodOf(options);
+
+      if (method === 'none') {
+        return {
+          success: false,
+          preview: true,
+          method,
+          message: `${sender} offers no unsubscribe option in this email. Archiving or filtering their mail is the alternative.`
+        };
+      }
+      if (method === 'link') {
+        return {
+          success: true,
+          preview: true,
+          method,
+          link: options.webUrl,
+          message: `${sender} only offers an unsubscribe page, which the user has to open themselves: ${options.webUrl}`
+        };
+      }
+
+      // Check now that the account may send, rather than failing after the user confirmed
+      if (method === 'email') await getGmailService(userId, account, 'gmail.send');
+
+      const how = method === 'one-click'
+        ? `a one-click unsubscribe request to ${new URL(options.oneClickUrl!).hostname}`
+        : `an unsubscribe email to ${options.mailto!.address} from the user's account`;
+      await requestConfirmation(userId, {
+        prompt: `Unsubscribe from ${sender}? This sends ` + (method === 'one-click'
+          ? `a one-click unsubscribe request to ${new URL(options.oneClickUrl!).hostname}.`
+          : `an unsubscribe email to ${options.mailto!.address} from your account.`),
+        run: async () => {
+          if (method === 'one-click') {
+            await oneClickUnsubscribe(options.oneClickUrl!);
+          } else {
+            const sendingGmail = await getGmailService(userId, account, 'gmail.send');
+            if (!sendingGmail) {
+                throw new Error("Google Authentication required. Please use /connect_google.");
+            }
+            const { address, subject, body } = options.mailto!;
+            await sendingGmail.users.messages.send({
+              userId: 'me',
+              requestBody: { raw: composeEmail({ to: address, subject, body }) }
+            });
+          }
+          console.log(`Unsubscribed user ${userId} from ${sender} (${method})`);
+          return `Unsubscribe request sent to ${sender}. It can take a few days for their emails to stop.`;
+        }
+      });
+
+      return {
+        success: true,
+        preview: true,
+        method,
+        awaitingConfirmation: true,
+        message: `This would unsubscribe from ${sender} by sending ${how}. ` +
+          `The user has been asked to confirm with a button in the chat; nothing is sent until they press it.`
+      };
+    } catch (error) {
+      console.error('Failed to unsubscribe:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      return {
+        success: false,
+        message: `Failed to unsubscribe: ${errorMessage}`
+      };
+    }
+  }
+});
@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { calendar_v3 } from "googleapis";
+import { splitRecurringEvent } from "./googleCalendarTools";
+
+// Records the requests splitRecurringEvent makes; `earlierOccurrences` is what instances() returns
+function fakeCalendar(earlierOccurrences: number) {
+  const calls: { inserted?: calendar_v3.Schema$Event; patched?: calendar_v3.Schema$Event } = {};
+  const calendar = {
+    events: {
+      instances: async () => ({ data: { items: Array.from({ length: earlierOccurrences }, () => ({})) } }),
+      insert: async ({ requestBody }: { requestBody: calendar_v3.Schema$Event }) => {
+        calls.inserted = requestBody;
+        return { data: { id: 'new-series' } };
+      },
+      patch: async ({ requestBody }: { requestBody: calendar_v3.Schema$Event }) => {
+        calls.patched = requestBody;
+        return { data: {} };
+      }
+    }
+  } as unknown as calendar_v3.Calendar;
+  return { calendar, calls };
+}
+
+describe('splitRecurringEvent', () => {
+  const series: calendar_v3.Schema$Event = {
+    id: 'series',
+    summary: 'Standup',
+    start: { dateTime: '2026-11-02T09:00:00-05:00', timeZone: 'America/New_York' },
+    end: { dateTime: '2026-11-02T09:15:00-05:00', timeZone: 'America/New_York' },
+    recurrence: ['RRULE:FREQ=DAILY;COUNT=10']
+  };
+  const occurrence: calendar_v3.Schema$Event = {
+    id: 'series_20261105T140000Z',
+    start: { dateTime: '2026-11-05T09:00:00-05:00' },
+    end: { dateTime: '2026-11-05T09:15:00-05:00' },
+    originalStartTime: { dateTime: '2026-11-05T09:00:00-05:00' }
+  };
+
+  it('ends the series before the occurrence and continues with the occurrences left', async () => {
+    const { calendar, calls } = fakeCalendar(3);
+    const id = await splitRecurringEvent(calendar, 'primary', series, occurrence, { summary: 'Daily sync' }, 'none');
+
+    assert.equal(id, 'new-series');
+    assert.deepEqual(calls.patched?.recurrence, ['RRULE:FREQ=DAILY;UNTIL=20261105T135959Z']);
+    assert.deepEqual(calls.inserted?.recurrence, ['RRULE:FREQ=DAILY;COUNT=7']);
+    assert.equal(calls.inserted?.summary, 'Daily sync');
+    assert.deepEqual(calls.inserted?.start, { dateTime: '2026-11-05T09:00:00-05:00', timeZone: 'America/New_York' });
+  });
+
+  it("keeps the series' time zone when the change moves the time", async () => {
+    const { calendar, calls } = fakeCalendar(3);
+    await splitRecurringEvent(calendar, 'primary', series, occurrence, {
+      start: { dateTime: '2026-11-05T15:00:00.000Z' },
+      end: { dateTime: '2026-11-05T15:30:00.000Z' }
+    }, 'none');
+
+    assert.deepEqual(calls.inserted?.start, { dateTime: '2026-11-05T15:00:00.000Z', timeZone: 'America/New_York' });
+    assert.deepEqual(calls.inserted?.end, { dateTime: '2026-11-05T15:30:00.000Z', timeZone: 'America/New_York' });
+  });
+});
@@ -1,6 +1,12 @@
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
-import { getCalendarService } from "../integrations/googleAuth";
+import { calendar_v3 } from "googleapis";
+import { getCalendarService, getGmailService } from "../integrations/googleAuth";
+import { resolveUserId, accountSchema } from "./userContext";
+import { calendarSchema, calendarCacheKey, getCalendars, calendarNameOf, findCalendar, resolveCalendarId } from "./calendarList";
+import { getUserTimeZone, zonedParts, zonedTimeToUtc, addDays, formatRangeInTimeZone, ZonedDate } from "../integrations/userTimeZone";
+import { composeEmail } from "./mimeComposer";
+import { recurrenceSchema, buildRecurrence, describeRecurrence, recurrenceCount, endRecurrenceBefore, continueRecurrence } from "./recurrence";
 
 function ensureRFC3339(dateString: string | undefined | null): string | undefined {
   if (!dateString) return undefined;
@@ -17,9 +23,35 @@ function ensureRFC3339(dateString: string | undefined | null): string | undefine
   }
 }
 
-function formatEvent(event: any) {
+const attendeeSchema = z.object({
+  email: z.string(),
+  name: z.string().optional(),
+  responseStatus: z.string().describe("needsAction (not answered yet), accepted, declined or tentative"),
+  comment: z.string().optional(),
+  optional: z.boolean().optional(),
+  organizer: z.boolean().optional(),
+  self: z.boolean().optional().describe("True for the user")
+});
+
+function formatAttendee(attendee: calendar_v3.Schema$EventAttendee) {
+  return {
+    email: attendee.email || '',
+    name: attendee.displayName || undefined,
+    responseStatus: attendee.responseStatus || 'needsAction',
+    comment: attendee.comment || undefined,
+    optional: attendee.optional || undefined,
+    organizer: attendee.organizer || undefined,
+    self: attendee.self || undefined
+  };
+}
+
+function formatEvent(event: any, seriesRecurrence: Map<string, string> = new Map(), timeZone?: string) {
   const startString = event.start?.dateTime || event.start?.date;
   const endString = event.end?.dateTime || event.end?.date;
+  // All-day events are dates, the same in every zone
+  const local = timeZone && event.start?.dateTime && event.end?.dateTime
+    ? formatRangeInTimeZone(new Date(event.start.dateTime), new Date(event.end.dateTime), timeZone)
+    : event.start?.date ? `${event.start.date} (all day)` : undefined;
   
   return {
     id: event.id || 'unknown',
@@ -28,11 +60,171 @@ function formatEvent(event: any) {
     end: ensureRFC3339(endString) || '',
     location: event.location || undefined,
     description: event.description || undefined,
-    attendees: event.attendees?.map((a: any) => a.email).filter(Boolean) || undefined,
-    conferenceData: event.conferenceData || undefined
+    organizer: event.organizer?.displayName || event.organizer?.email || undefined,
+    attendees: event.attendees?.filter((a: any) => a.email).map(formatAttendee) || undefined,
+    // The user's own answer, when they are invited rather than organizing
+    myResponse: event.organizer?.self ? undefined : event.attendees?.find((a: any) => a.self)?.responseStatus || undefined,
+    conferenceData: event.conferenceData || undefined,
+    local,
+    recurringEventId: event.recurringEventId || undefined,
+    recurrence: event.recurrence
+      ? describeRecurrence(event.recurrence, event.start?.timeZone ?? undefined)
+      : seriesRecurrence.get(event.recurringEventId) || undefined
   };
 }
 
+const eventSchema = z.object({
+  id: z.string(),
+  summary: z.string(),
+  start: z.string(),
+  end: z.string(),
+  location: z.string().optional(),
+  description: z.string().optional(),
+  organizer: z.string().optional(),
+  attendees: z.array(attendeeSchema).optional(),
+  myResponse: z.string().optional().describe("The user's answer to the invitation, when someone else organizes the event"),
+  conferenceData: z.any().optional(),
+  local: z.string().optional().describe("Start and end in the user's time zone, to show to the user"),
+  recurringEventId: z.string().optional(),
+  recurrence: z.string().optional()
+});
+
+// Occurrences only point at their series, which holds the recurrence rule
+async function seriesRecurrenceOf(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  events: calendar_v3.Schema$Event[]
+): Promise<Map<string, string>> {
+  const seriesRecurrence: Map<string, string> = new Map();
+  const seriesIds = [...new Set(events.map(event => event.recurringEventId).filter((id): id is string => !!id))];
+  for (const seriesId of seriesIds) {
+    try {
+      const series = await calendar.events.get({ calendarId, eventId: seriesId });
+      if (series.data.recurrence) seriesRecurrence.set(seriesId, describeRecurrence(series.data.recurrence, series.data.start?.timeZone ?? undefined));
+    } catch (seriesError) {
+      console.warn(`Could not read recurring event ${seriesId}:`, seriesError);
+    }
+  }
+  return seriesRecurrence;
+}
+
+// Which part of a recurring event a change applies to
+const recurringScopeSchema = z.enum(['instance', 'following', 'all']).optional().default('instance').describe(
+  "For recurring events: 'instance' changes only this occurrence, 'following' this and all later ones, 'all' the whole series. Ignored for single events"
+);
+
+function eventTimeMs(time?: calendar_v3.Schema$EventDateTime | null): number {
+  return new Date(time?.dateTime || time?.date || 0).getTime();
+}
+
+// Move an event time by a number of milliseconds, keeping its all-day or timed form and time zone
+function shiftEventTime(time: calendar_v3.Schema$EventDateTime, deltaMs: number): calendar_v3.Schema$EventDateTime {
+  if (time.date) {
+    return { date: new Date(new Date(time.date).getTime() + deltaMs).toISOString().split('T')[0] };
+  }
+  return { dateTime: new Date(eventTimeMs(time) + deltaMs).toISOString(), timeZone: time.timeZone };
+}
+
+// Split a series at one occurrence: the original ends just before it and a new series,
+// with the requested changes, continues from it. Returns the new series' ID.
+export async function splitRecurringEvent(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  series: calendar_v3.Schema$Event,
+  occurrence: calendar_v3.Schema$Event,
+  changes: calendar_v3.Schema$Event,
+  sendUpdates: 'all' | 'none'
+): Promise<string | undefined> {
+  const recurrence = series.recurrence || [];
+  const occurrenceStart = new Date(eventTimeMs(occurrence.originalStartTime || occurrence.start));
+  const allDay = !!series.start?.date;
+
+  let remaining: number | undefined;
+  const count = recurrenceCount(recurrence);
+  if (count) {
+    // Cancelled occurrences still count towards COUNT, so include them
+    const earlier = await calendar.events.instances({
+      calendarId,
+      eventId: series.id!,
+      timeMax: occurrenceStart.toISOString(),
+      showDeleted: true,
+      maxResults: 2500
+    });
+    remaining = count - (earlier.data.items || []).length;
+  }
+
+  // Create the continuation first, so a failure never leaves the later occurrences missing
+  const continuation = await calendar.events.insert({
+    calendarId,
+    sendUpdates,
+    requestBody: {
+      summary: series.summary,
+      description: series.description,
+      location: series.location,
+      attendees: series.attendees,
+      reminders: series.reminders,
+      colorId: series.colorId,
+      transparency: series.transparency,
+      visibility: series.visibility,
+      ...changes,
+      // A recurring event needs a time zone, and changed times are given without one
+      start: { ...(changes.start ?? occurrence.start), timeZone: series.start?.timeZone },
+      end: { ...(changes.end ?? occurrence.end), timeZone: series.end?.timeZone },
+      recurrence: continueRecurrence(recurrence, remaining)
+    }
+  });
+  await calendar.events.patch({
+    calendarId,
+    eventId: series.id!,
+    sendUpdates,
+    requestBody: { recurrence: endRecurrenceBefore(recurrence, occurrenceStart, allDay) }
+  });
+  return continuation.data.id ?? undefined;
+}
+
+export const listCalendarsTool = createTool({
+  id: "list-calendars",
+  description: "List the user's calendars: their own, team and shared calendars, and subscribed ones such as holidays.",
+  inputSchema: z.object({
+    account: accountSchema
+  }),
+  outputSchema: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    primary: z.boolean(),
+    accessRole: z.string(),
+    timeZone: z.string().optional(),
+    description: z.string().optional()
+  })),
+  execute: async ({ context, resourceId }) => {
+    const { account } = context;
+    const userId = resolveUserId(resourceId);
+    try {
+      const calendar = await getCalendarService(userId, account, 'calendar.read');
+      if (!calendar) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      // Listing is an explicit request, so always show the current calendars
+      const calendars = await getCalendars(calendar, await calendarCacheKey(userId, account), true);
+      return calendars.map(entry => ({
+        id: entry.id || '',
+        name: calendarNameOf(entry),
+        primary: !!entry.primary,
+        accessRole: entry.accessRole || 'reader',
+        timeZone: entry.timeZone ?? undefined,
+        description: entry.description ?? undefined
+      }));
+    } catch (error: any) {
+      console.error('Failed to list calendars:', error.response?.data || error.message || error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      const googleError = error.response?.data?.error?.message || errorMessage;
+      throw new Error(`Failed to list calendars: ${googleError}`);
+    }
+  },
+});
+
 export const listCalendarEventsTool = createTool({
   id: "list-calendar-events",
   description: "List upcoming Google Calendar events for the user.",
@@ -41,30 +233,21 @@ export const listCalendarEventsTool = createTool({
     timeMax: z.string().optional().describe("End time in ISO format (RFC3339). Defaults to 7 days from now"),
     maxResults: z.number().optional().default(10).describe("Maximum number of events to return"),
     query: z.string().optional().describe("Search query to filter events"),
-    userId: z.string().describe("The Telegram user ID for authentication")
+    calendar: calendarSchema,
+    account: accountSchema
   }),
-  outputSchema: z.array(z.object({
-    id: z.string(),
-    summary: z.string(),
-    start: z.string(),
-    end: z.string(),
-    location: z.string().optional(),
-    description: z.string().optional(),
-    attendees: z.array(z.string()).optional(),
-    conferenceData: z.any().optional()
-  })),
-  execute: async ({ context }) => {
+  outputSchema: z.array(eventSchema),
+  execute: async ({ context, resourceId }) => {
     const {
       timeMin: rawTimeMin,
       timeMax: rawTimeMax,
       maxResults = 10,
       query = '',
-      userId
+      calendar: calendarName,
+      account
     } = context;
     
-    if (!userId) {
-      throw new Error("Authentication error: User ID is required.");
-    }
+    const userId = resolveUserId(resourceId);
     
     const timeMin = ensureRFC3339(rawTimeMin) || new Date().toISOString();
     const timeMax = ensureRFC3339(rawTimeMax) || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
@@ -72,13 +255,14 @@ export const listCalendarEventsTool = createTool({
     console.log(`[listCalendarEventsTool] Using timeMin: ${timeMin}, timeMax: ${timeMax}`);
 
     try {
-      const calendar = await getCalendarService(userId);
+      const calendar = await getCalendarService(userId, account, 'calendar.read');
       if (!calendar) {
           throw new Error("Google Authentication required. Please use /connect_google.");
       }
       
+      const calendarId = await resolveCalendarId(calendar, await calendarCacheKey(userId, account), calendarName);
       const listParams: any = {
-        calendarId: 'primary',
+        calendarId,
         timeMin,
         timeMax,
         maxResults,
@@ -96,7 +280,9 @@ export const listCalendarEventsTool = createTool({
         return [];
       }
       
-      return response.data.items.map(formatEvent);
+      const seriesRecurrence = await seriesRecurrenceOf(calendar, calendarId, response.data.items);
+      const timeZone = await getUserTimeZone(userId);
+      return response.data.items.map(event => formatEvent(event, seriesRecurrence, timeZone));
     } catch (error: any) {
       console.error('Failed to list calendar events:', error.response?.data || error.message || error);
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -119,15 +305,18 @@ export const createCalendarEventTool = createTool({
     attendees: z.array(z.string().email()).optional().describe("List of attendee email addresses"),
     conferenceData: z.boolean().optional().default(false).describe("Whether to add Google Meet videoconference"),
     allDay: z.boolean().optional().default(false).describe("Whether this is an all-day event. If true, start/end should be dates like YYYY-MM-DD"),
-    userId: z.string().describe("The Telegram user ID for authentication")
+    recurrence: recurrenceSchema.optional().describe("Makes this a recurring event; start and end are those of the first occurrence"),
+    calendar: calendarSchema,
+    account: accountSchema
   }),
   outputSchema: z.object({
     success: z.boolean(),
     eventId: z.string().optional(),
     eventLink: z.string().optional(),
+    recurrence: z.string().optional(),
     message: z.string()
   }),
-  execute: async ({ context }) => {
+  execute: async ({ context, resourceId }) => {
     const {
       summary,
       start: rawStart,
@@ -137,12 +326,12 @@ export const createCalendarEventTool = createTool({
       attendees,
       conferenceData = false,
       allDay = false,
-      userId
+      recurrence,
+      calendar: calendarName,
+      account
     } = context;
     
-    if (!userId) {
-      throw new Error("Authentication error: User ID is required.");
-    }
+    const userId = resolveUserId(resourceId);
 
     let startObj, endObj;
     try {
@@ -169,7 +358,7 @@ export const createCalendarEventTool = createTool({
     }
 
     try {
-      const calendar = await getCalendarService(userId);
+      const calendar = await getCalendarService(userId, account, 'calendar.write');
       if (!calendar) {
           throw new Error("Google Authentication required. Please use /connect_google.");
       }
@@ -191,8 +380,19 @@ export const createCalendarEventTool = createTool({
           eventRequestBody.conferenceData = { createRequest: { requestId: `${Date.now()}-${Math.random()}` } };
       }
 
+      const calendarId = await resolveCalendarId(calendar, await calendarCacheKey(userId, account), calendarName);
+      if (recurrence) {
+          // Recurring events repeat in a time zone; use the calendar's own
+          const timeZone = (await calendar.calendars.get({ calendarId })).data.timeZone || 'UTC';
+          eventRequestBody.recurrence = buildRecurrence(recurrence, new Date(rawStart), allDay, timeZone);
+          if (!allDay) {
+              eventRequestBody.start = { ...startObj, timeZone };
+              eventRequestBody.end = { ...endObj, timeZone };
+          }
+      }
+
       const response = await calendar.events.insert({
-        calendarId: 'primary',
+        calendarId,
         requestBody: eventRequestBody,
         conferenceDataVersion: conferenceData ? 1 : 0
       });
@@ -204,7 +404,8 @@ export const createCalendarEventTool = createTool({
         success: true, 
         eventId: event.id ?? undefined, 
         eventLink: event.htmlLink ?? undefined,
-        message: "Event created successfully" 
+        recurrence: event.recurrence ? describeRecurrence(event.recurrence, event.start?.timeZone ?? undefined) : undefined,
+        message: event.recurrence ? "Recurring event created successfully" : "Event created successfully"
       };
     } catch (error: any) {
       console.error('Failed to create event:', error.response?.data || error.message || error);
@@ -221,32 +422,60 @@ export const createCalendarEventTool = createTool({
 
 export const deleteCalendarEventTool = createTool({
   id: "delete-calendar-event",
-  description: "Delete an event from Google Calendar.",
+  description: "Delete an event from Google Calendar. For recurring events, delete one occurrence, this and all following ones, or the whole series.",
   inputSchema: z.object({
-    eventId: z.string().describe("ID of the event to delete"),
+    eventId: z.string().describe("ID of the event to delete; for recurring events the ID of the occurrence from listCalendarEventsTool"),
     notifyAttendees: z.boolean().optional().default(false).describe("Whether to notify attendees of the deletion"),
-    userId: z.string().describe("The Telegram user ID for authentication")
+    scope: recurringScopeSchema,
+    calendar: calendarSchema,
+    account: accountSchema
   }),
   outputSchema: z.object({
     success: z.boolean(),
     message: z.string()
   }),
-  execute: async ({ context }) => {
-    const { eventId, notifyAttendees = false, userId } = context;
-    if (!userId) {
-      throw new Error("Authentication error: User ID is required.");
-    }
+  execute: async ({ context, resourceId }) => {
+    const { eventId, notifyAttendees = false, scope = 'instance', calendar: calendarName, account } = context;
+    const userId = resolveUserId(resourceId);
     try {
-      const calendar = await getCalendarService(userId);
+      const calendar = await getCalendarService(userId, account, 'calendar.write');
       if (!calendar) {
           throw new Error("Google Authentication required. Please use /connect_google.");
       }
+      const calendarId = await resolveCalendarId(calendar, await calendarCacheKey(userId, account), calendarName);
+      const sendUpdates = notifyAttendees ? 'all' : 'none';
+
+      const event = (await calendar.events.get({ calendarId, eventId })).data;
+      const seriesId = event.recurringEventId || (event.recurrence ? event.id : undefined);
+      if (seriesId && scope === 'instance' && !event.recurringEventId) {
+          throw new Error("This ID is the whole recurring series. Pass the occurrence's ID from listCalendarEventsTool, or use scope 'all'.");
+      }
+
+      if (seriesId && scope === 'following' && event.recurringEventId) {
+          const series = (await calendar.events.get({ calendarId, eventId: seriesId })).data;
+          const occurrenceStart = eventTimeMs(event.originalStartTime || event.start);
+          if (occurrenceStart > eventTimeMs(series.start)) {
+              await calendar.events.patch({
+                calendarId,
+                eventId: seriesId,
+                sendUpdates,
+                requestBody: { recurrence: endRecurrenceBefore(series.recurrence || [], new Date(occurrenceStart), !!series.start?.date) }
+              });
+              return { success: true, message: "This and all following occurrences deleted successfully" };
+          }
+          // From the first occurrence on is the whole series
+      }
+
+      const deleteSeries = !!seriesId && scope !== 'instance';
       await calendar.events.delete({
-        calendarId: 'primary',
-        eventId,
-        sendUpdates: notifyAttendees ? 'all' : 'none'
+        calendarId,
+        eventId: deleteSeries ? seriesId! : eventId,
+        sendUpdates
       });
-      return { success: true, message: "Event deleted successfully" };
+      return {
+        success: true,
+        message: deleteSeries ? "Recurring event series deleted successfully" : seriesId ? "Occurrence deleted successfully" : "Event deleted successfully"
+      };
     } catch (error: any) {
       console.error('Failed to delete event:', error.response?.data || error.message || error);
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -259,9 +488,9 @@ export const deleteCalendarEventTool = createTool({
 
 export const updateCalendarEventTool = createTool({
   id: "update-calendar-event",
-  description: "Update an existing event in Google Calendar.",
+  description: "Update an existing event in Google Calendar. For recurring events, change one occurrence, this and all following ones, or the whole series.",
   inputSchema: z.object({
-    eventId: z.string().describe("ID of the event to update"),
+    eventId: z.string().describe("ID of the event to update; for recurring events the ID of the occurrence from listCalendarEventsTool"),
     summary: z.string().optional().describe("Updated event title"),
     start: z.string().optional().describe("Updated start time (RFC3339 format)"),
     end: z.string().optional().describe("Updated end time (RFC3339 format)"),
@@ -269,14 +498,17 @@ export const updateCalendarEventTool = createTool({
     description: z.string().optional().describe("Updated event description"),
     attendees: z.array(z.string().email()).optional().describe("Updated list of attendee email addresses"),
     notifyAttendees: z.boolean().optional().default(false).describe("Whether to notify attendees of the update"),
-    userId: z.string().describe("The Telegram user ID for authentication")
+    scope: recurringScopeSchema,
+    calendar: calendarSchema,
+    moveToCalendar: z.string().optional().describe("Name or ID of another calendar to move the event to. Recurring events move as a whole series and need scope 'all'"),
+    account: accountSchema
   }),
   outputSchema: z.object({
     success: z.boolean(),
     eventId: z.string().optional(),
     message: z.string()
   }),
-  execute: async ({ context }) => {
+  execute: async ({ context, resourceId }) => {
     const {
       eventId,
       summary,
@@ -286,25 +518,51 @@ export const updateCalendarEventTool = createTool({
       description,
       attendees,
       notifyAttendees = false,
-      userId
+      scope = 'instance',
+      calendar: calendarName,
+      moveToCalendar,
+      account
     } = context;
     
-    if (!userId) {
-      throw new Error("Authentication error: User ID is required.");
-    }
+    const userId = resolveUserId(resourceId);
     try {
-      const calendar = await getCalendarService(userId);
+      const calendar = await getCalendarService(userId, account, 'calendar.write');
       if (!calendar) {
           throw new Error("Google Authentication required. Please use /connect_google.");
       }
-      
-      let isAllDay = false;
+      const cacheKey = await calendarCacheKey(userId, account);
+      let calendarId = await resolveCalendarId(calendar, cacheKey, calendarName);
+
+      let existing: calendar_v3.Schema$Event | undefined;
       try {
-          const existingEvent = await calendar.events.get({ calendarId: 'primary', eventId });
-          isAllDay = !!existingEvent.data.start?.date;
+          existing = (await calendar.events.get({ calendarId, eventId })).data;
       } catch (getError) {
           console.error(`[updateCalendarEventTool] Failed to get existing event ${eventId} to check allDay status:`, getError);
       }
+      const isAllDay = !!existing?.start?.date;
+      const seriesId = existing?.recurringEventId || (existing?.recurrence ? existing.id ?? undefined : undefined);
+      if (seriesId && scope === 'instance' && !existing?.recurringEventId) {
+          throw new Error("This ID is the whole recurring series. Pass the occurrence's ID from listCalendarEventsTool, or use scope 'all' or 'following'.");
+      }
+      let moved = false;
+      if (moveToCalendar) {
+          const destination = await resolveCalendarId(calendar, cacheKey, moveToCalendar);
+          if (destination !== calendarId) {
+              // Google moves a recurring event as a whole series, never single occurrences
+              if (seriesId && scope !== 'all') {
+                  throw new Error("Only a whole recurring series can be moved to another calendar. Ask the user whether to move the entire series, then use scope 'all'.");
+              }
+              await calendar.events.move({
+                calendarId,
+                eventId: seriesId ?? eventId,
+                destination,
+                sendUpdates: notifyAttendees ? 'all' : 'none'
+              });
+              calendarId = destination;
+              moved = true;
+          }
+      }
+
 
       const updateFields: any = {};
       if (summary !== undefined) updateFields.summary = summary;
@@ -344,20 +602,50 @@ export const updateCalendarEventTool = createTool({
       }
       
       if (Object.keys(updateFields).length === 0) {
-          return { success: true, eventId, message: "No fields provided to update." };
+          return moved
+            ? { success: true, eventId, message: seriesId ? `Whole recurring event series moved to ${moveToCalendar}` : `Event moved to ${moveToCalendar}` }
+            : { success: true, eventId, message: "No fields provided to update." };
+      }
+
+      const sendUpdates = notifyAttendees ? 'all' : 'none';
+      if (seriesId && existing?.recurringEventId && scope !== 'instance') {
+          const series = (await calendar.events.get({ calendarId, eventId: seriesId })).data;
+          const occurrenceStart = eventTimeMs(existing.originalStartTime || existing.start);
+
+          if (scope === 'following' && occurrenceStart > eventTimeMs(series.start)) {
+              const newSeriesId = await splitRecurringEvent(calendar, calendarId, series, existing, updateFields, sendUpdates);
+              return {
+                success: true,
+                eventId: newSeriesId,
+                message: "This and all following occurrences updated successfully (they are now a separate series)"
+              };
+          }
+
+          // A new time for one occurrence becomes the same shift for the whole series
+          for (const key of ['start', 'end'] as const) {
+              if (updateFields[key] && series[key]) {
+                  updateFields[key] = shiftEventTime(series[key]!, eventTimeMs(updateFields[key]) - eventTimeMs(existing[key]));
+              }
+          }
+      } else if (seriesId) {
+          // Recurring events keep their time zone on every occurrence
+          if (updateFields.start?.dateTime) updateFields.start.timeZone = existing?.start?.timeZone;
+          if (updateFields.end?.dateTime) updateFields.end.timeZone = existing?.end?.timeZone;
       }
 
       const response = await calendar.events.patch({
-        calendarId: 'primary',
-        eventId,
+        calendarId,
+        eventId: seriesId && scope !== 'instance' ? seriesId : eventId,
         requestBody: updateFields,
-        sendUpdates: notifyAttendees ? 'all' : 'none'
+        sendUpdates
       });
       
+      // Moves only happen with scope 'all', so a moved recurring event is always the whole series
+      const what = seriesId ? (scope === 'instance' ? "Occurrence" : "Recurring event series") : "Event";
       return {
         success: true,
         eventId: response.data.id ?? undefined,
-        message: "Event updated successfully"
+        message: moved ? `${what} moved to ${moveToCalendar} and updated successfully` : `${what} updated successfully`
       };
     } catch (error: any) {
       console.error('Failed to update event:', error.response?.data || error.message || error);
@@ -372,34 +660,89 @@ export const updateCalendarEventTool = createTool({
   }
 });
 
+interface BusyPeriod {
+  start: Date;
+  end: Date;
+}
+
+interface SlotSearch {
+  from: Date;
+  to: Date;
+  durationMs: number;
+  minStartHour: number;
+  maxEndHour: number;
+  timeZone: string;
+  limit: number;
+  stepMs?: number;
+}
+
+function busyPeriodsOf(busy: calendar_v3.Schema$TimePeriod[] = []): BusyPeriod[] {
+  return busy
+    .filter(period => period.start && period.end)
+    .map(period => ({ start: new Date(period.start!), end: new Date(period.end!) }));
+}
+
+// Free slots inside the user's daily working hours. Working hours are local hours,
+// worked out day by day so DST changes shift them correctly.
+function findFreeSlots(busyTimes: BusyPeriod[], search: SlotSearch): BusyPeriod[] {
+  const { from, to, durationMs, minStartHour, maxEndHour, timeZone, limit, stepMs = 15 * 60 * 1000 } = search;
+  const slots: BusyPeriod[] = [];
+  let day: ZonedDate = zonedParts(from, timeZone);
+
+  while (slots.length < limit) {
+    const dayStart = zonedTimeToUtc(day, minStartHour, 0, timeZone);
+    const dayEnd = zonedTimeToUtc(day, maxEndHour, 0, timeZone);
+    if (dayStart >= to) break;
+
+    let currentTime = dayStart > from ? dayStart : from;
+    const windowEnd = dayEnd < to ? dayEnd : to;
+
+    while (slots.length < limit) {
+      const slotEndTime = new Date(currentTime.getTime() + durationMs);
+      if (slotEndTime > windowEnd) break;
+
+      const overlapping = busyTimes.filter(busySlot => currentTime < busySlot.end && slotEndTime > busySlot.start);
+      if (overlapping.length === 0) {
+        slots.push({ start: currentTime, end: slotEndTime });
+        currentTime = new Date(currentTime.getTime() + stepMs);
+      } else {
+        currentTime = new Date(Math.max(...overlapping.map(busySlot => busySlot.end.getTime())));
+      }
+    }
+    day = addDays(day, 1);
+  }
+  return slots;
+}
+
 export const getCalendarAvailabilityTool = createTool({
   id: "get-calendar-availability",
-  description: "Find available time slots in the calendar.",
+  description: "Find available time slots in the calendar, optionally combining several of the user's calendars so a slot is only free when it is free in all of them.",
   inputSchema: z.object({
     startDate: z.string().describe("Start date/time to check from (RFC3339 format)"),
     endDate: z.string().describe("End date/time to check until (RFC3339 format)"),
     duration: z.number().min(1).describe("Desired duration of the free slot in minutes"),
-    minStartHour: z.number().min(0).max(23).optional().default(9).describe("Minimum hour of day to consider (0-23)"),
-    maxEndHour: z.number().min(0).max(23).optional().default(17).describe("Maximum hour of day to consider (0-23), exclusive"),
-    userId: z.string().describe("The Telegram user ID for authentication")
+    minStartHour: z.number().min(0).max(23).optional().default(9).describe("Minimum hour of day to consider (0-23), in the user's time zone"),
+    maxEndHour: z.number().min(0).max(23).optional().default(17).describe("Maximum hour of day to consider (0-23), exclusive, in the user's time zone"),
+    calendars: z.array(z.string()).optional().describe("Names or IDs of the calendars whose events count as busy. Defaults to the primary calendar"),
+    account: accountSchema
   }),
   outputSchema: z.array(z.object({
     start: z.string(),
-    end: z.string()
+    end: z.string(),
+    local: z.string().describe("The slot in the user's time zone, to show to the user")
   })),
-  execute: async ({ context }) => {
+  execute: async ({ context, resourceId }) => {
     const {
       startDate: rawStartDate,
       endDate: rawEndDate,
       duration,
       minStartHour = 9,
       maxEndHour = 17,
-      userId
+      calendars = [],
+      account
     } = context;
     
-    if (!userId) {
-      throw new Error("Authentication error: User ID is required.");
-    }
+    const userId = resolveUserId(resourceId);
 
     const startDate = ensureRFC3339(rawStartDate);
     const endDate = ensureRFC3339(rawEndDate);
@@ -411,83 +754,462 @@ export const getCalendarAvailabilityTool = createTool({
     }
 
     try {
-      const calendar = await getCalendarService(userId);
+      const calendar = await getCalendarService(userId, account, 'calendar.read');
       if (!calendar) {
           throw new Error("Google Authentication required. Please use /connect_google.");
       }
       
-      const response = await calendar.events.list({
-        calendarId: 'primary',
-        timeMin: startDate,
-        timeMax: endDate,
-        singleEvents: true,
-        orderBy: 'startTime'
+      const timeZone = await getUserTimeZone(userId);
+      const cacheKey = await calendarCacheKey(userId, account);
+      const calendarIds: string[] = [];
+      for (const name of calendars.length > 0 ? calendars : ['primary']) {
+        calendarIds.push(await resolveCalendarId(calendar, cacheKey, name));
+      }
+
+      // Free/busy also works for shared calendars whose event details the user can't see
+      const response = await calendar.freebusy.query({
+        requestBody: {
+          timeMin: startDate,
+          timeMax: endDate,
+          items: [...new Set(calendarIds)].map(id => ({ id }))
+        }
+      });
+
+      const busyTimes = Object.entries(response.data.calendars || {}).flatMap(([id, entry]) => {
+        if (entry.errors && entry.errors.length > 0) {
+          throw new Error(`Could not read free/busy times of calendar ${id}: ${entry.errors.map(e => e.reason).join(', ')}`);
+        }
+        return busyPeriodsOf(entry.busy);
       });
       
-      const events = response.data.items || [];
-      const busyTimes = events
-        .map(event => {
-          const startString = event.start?.dateTime || event.start?.date;
-          const endString = event.end?.dateTime || event.end?.date;
-          if (!startString || !endString) return null;
-          return { start: new Date(startString), end: new Date(endString) };
-        })
-        .filter((slot): slot is { start: Date; end: Date } => slot !== null);
-      
-      const startDateTime = new Date(startDate);
-      const endDateTime = new Date(endDate);
-      const durationMs = duration * 60 * 1000; 
-      
-      const availableSlots: { start: string; end: string }[] = [];
-      let currentTime = startDateTime;
+      const slots = findFreeSlots(busyTimes, {
+        from: new Date(startDate),
+        to: new Date(endDate),
+        durationMs: duration * 60 * 1000,
+        minStartHour,
+        maxEndHour,
+        timeZone,
+        limit: 10
+      });
       
-      while (currentTime < endDateTime && availableSlots.length < 20) {
-        const slotEndTime = new Date(currentTime.getTime() + durationMs);
-        if (slotEndTime > endDateTime) break;
-
-        const currentDayStart = new Date(currentTime); currentDayStart.setHours(minStartHour, 0, 0, 0);
-        const currentDayEnd = new Date(currentTime); currentDayEnd.setHours(maxEndHour, 0, 0, 0);
-
-        if (currentTime < currentDayStart || slotEndTime > currentDayEnd) {
-            if (currentTime < currentDayStart) {
-                currentTime = currentDayStart;
-            } else {
-                currentTime = new Date(currentDayStart); 
-                currentTime.setDate(currentTime.getDate() + 1);
-            }
-            continue;
+      return slots.map(slot => ({
+        start: slot.start.toISOString(),
+        end: slot.end.toISOString(),
+        local: formatRangeInTimeZone(slot.start, slot.end, timeZone)
+      }));
+    } catch (error: any) {
+      console.error('Failed to find available slots:', error.response?.data || error.message || error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      const googleError = error.response?.data?.error?.message || errorMessage;
+      throw new Error(`Failed to find available slots: ${googleError}`);
+    }
+  }
+}); 
+// freebusy.query accepts at most 50 calendars per request, the user's own included
+const MAX_MEETING_ATTENDEES = 49;
+// Free slots considered before ranking; enough for a couple of busy weeks
+const MAX_MEETING_CANDIDATES = 300;
+const MEETING_SLOT_STEP_MS = 30 * 60 * 1000;
+// A break of this long before and after a meeting counts as a full buffer
+const MEETING_BUFFER_MS = 30 * 60 * 1000;
+
+const FREEBUSY_ERROR_REASONS: { [reason: string]: string } = {
+  notFound: "calendar not shared or not found",
+  groupTooBig: "group too large to expand",
+  tooManyCalendarsRequested: "too many calendars in one request",
+  internalError: "Google could not read it"
+};
+
+export const findMeetingTimesTool = createTool({
+  id: "find-meeting-times",
+  description: "Find times when the user and a list of attendees are all free, using Google's free/busy information. Returns ranked candidate slots within the user's working hours, and reports attendees whose calendars could not be checked.",
+  inputSchema: z.object({
+    attendees: z.array(z.string().email()).min(1).max(MAX_MEETING_ATTENDEES).describe("Email addresses of the people who should attend"),
+    startDate: z.string().describe("Start date/time to search from (RFC3339 format)"),
+    endDate: z.string().describe("End date/time to search until (RFC3339 format)"),
+    duration: z.number().min(1).describe("Meeting length in minutes"),
+    minStartHour: z.number().min(0).max(23).optional().default(9).describe("Earliest hour of day (0-23), in the user's time zone"),
+    maxEndHour: z.number().min(0).max(23).optional().default(17).describe("Hour of day (0-23) the meeting must end by, in the user's time zone"),
+    maxResults: z.number().min(1).max(20).optional().default(5).describe("Number of candidate slots to return"),
+    calendars: z.array(z.string()).optional().describe("Names or IDs of the user's own calendars that count as busy. Defaults to the primary calendar"),
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    slots: z.array(z.object({
+      start: z.string(),
+      end: z.string(),
+      local: z.string().describe("The slot in the user's time zone, to show to the user"),
+      bufferMinutes: z.number().describe("Free time before and after the slot for everyone checked, up to 30 minutes each side")
+    })),
+    checkedAttendees: z.array(z.string()),
+    unavailableAttendees: z.array(z.object({
+      email: z.string(),
+      reason: z.string()
+    })),
+    message: z.string()
+  }),
+  execute: async ({ context, resourceId }) => {
+    const {
+      attendees,
+      startDate: rawStartDate,
+      endDate: rawEndDate,
+      duration,
+      minStartHour = 9,
+      maxEndHour = 17,
+      maxResults = 5,
+      calendars = [],
+      account
+    } = context;
+
+    const userId = resolveUserId(resourceId);
+
+    const startDate = ensureRFC3339(rawStartDate);
+    const endDate = ensureRFC3339(rawEndDate);
+    if (!startDate || !endDate) {
+        throw new Error("Invalid start or end date format provided. Use full ISO 8601 format with timezone.");
+    }
+    if (new Date(endDate) <= new Date(startDate)) {
+        throw new Error("End date must be after start date.");
+    }
+
+    try {
+      const calendar = await getCalendarService(userId, account, 'calendar.read');
+      if (!calendar) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      const timeZone = await getUserTimeZone(userId);
+      const cacheKey = await calendarCacheKey(userId, account);
+      // Real IDs rather than 'primary', so the user's own address among the attendees
+      // is recognised as their primary calendar and not checked twice
+      const ownCalendarIds: string[] = [];
+      for (const name of calendars.length > 0 ? calendars : ['primary']) {
+        const entry = await findCalendar(calendar, cacheKey, name);
+        if (!entry?.id) {
+          throw new Error(`Unknown calendar: ${name}. Use listCalendarsTool to see the user's calendars.`);
         }
-        
-        const isOverlapping = busyTimes.some(busySlot => {
-          return (currentTime < busySlot.end && slotEndTime > busySlot.start);
-        });
-        
-        if (!isOverlapping) {
-          availableSlots.push({
-            start: currentTime.toISOString(),
-            end: slotEndTime.toISOString()
-          });
-          currentTime = new Date(currentTime.getTime() + 15 * 60 * 1000); 
-        } else {
-          let maxBusyEndTime = currentTime; 
-          busyTimes.forEach(busySlot => {
-              if (currentTime < busySlot.end && slotEndTime > busySlot.start) {
-                  if (busySlot.end > maxBusyEndTime) {
-                      maxBusyEndTime = busySlot.end;
-                  }
-              }
-          });
-          currentTime = maxBusyEndTime;
+        ownCalendarIds.push(entry.id);
+      }
+      const ownIds = new Set(ownCalendarIds.map(id => id.toLowerCase()));
+      const attendeeEmails = [...new Set(attendees.map(email => email.trim().toLowerCase()))]
+        .filter(email => !ownIds.has(email));
+      if (ownCalendarIds.length + attendeeEmails.length > MAX_MEETING_ATTENDEES + 1) {
+        throw new Error(`Too many calendars to check at once; at most ${MAX_MEETING_ATTENDEES + 1} including the user's own`);
+      }
+
+      const response = await calendar.freebusy.query({
+        requestBody: {
+          timeMin: startDate,
+          timeMax: endDate,
+          timeZone,
+          items: [...new Set([...ownCalendarIds, ...attendeeEmails])].map(id => ({ id }))
+        }
+      });
+      const results = response.data.calendars || {};
+
+      const busyTimes: BusyPeriod[] = [];
+      for (const id of ownCalendarIds) {
+        const entry = results[id];
+        if (entry?.errors && entry.errors.length > 0) {
+          throw new Error(`Could not read free/busy times of your calendar ${id}: ${entry.errors.map(e => e.reason).join(', ')}`);
         }
+        busyTimes.push(...busyPeriodsOf(entry?.busy));
       }
-      
-      return availableSlots.slice(0, 10);
+
+      // An attendee whose calendar can't be read is unknown, never assumed free
+      const checkedAttendees: string[] = [];
+      const unavailableAttendees: { email: string; reason: string }[] = [];
+      for (const email of attendeeEmails) {
+        const entry = results[email];
+        if (!entry || (entry.errors && entry.errors.length > 0)) {
+          const reasons = (entry?.errors || []).map(e => FREEBUSY_ERROR_REASONS[e.reason || ''] || e.reason || 'unknown error');
+          unavailableAttendees.push({ email, reason: reasons.length > 0 ? reasons.join(', ') : 'no free/busy information returned' });
+          continue;
+        }
+        checkedAttendees.push(email);
+        busyTimes.push(...busyPeriodsOf(entry.busy));
+      }
+
+      const from = new Date(startDate);
+      const candidates = findFreeSlots(busyTimes, {
+        from,
+        to: new Date(endDate),
+        durationMs: duration * 60 * 1000,
+        minStartHour,
+        maxEndHour,
+        timeZone,
+        limit: MAX_MEETING_CANDIDATES,
+        stepMs: MEETING_SLOT_STEP_MS
+      });
+
+      // Rank by breathing room around the slot first, then by how soon it is
+      const bufferOf = (slot: BusyPeriod) => {
+        const before = Math.min(MEETING_BUFFER_MS, ...busyTimes
+          .filter(busy => busy.end <= slot.start)
+          .map(busy => slot.start.getTime() - busy.end.getTime()));
+        const after = Math.min(MEETING_BUFFER_MS, ...busyTimes
+          .filter(busy => busy.start >= slot.end)
+          .map(busy => busy.start.getTime() - slot.end.getTime()));
+        return Math.round((before + after) / 60000);
+      };
+      const dayMs = 24 * 60 * 60 * 1000;
+      const ranked = candidates
+        .map(slot => ({ slot, bufferMinutes: bufferOf(slot), dayIndex: Math.floor((slot.start.getTime() - from.getTime()) / dayMs) }))
+        .sort((a, b) => (b.bufferMinutes - a.bufferMinutes) || (a.dayIndex - b.dayIndex) || (a.slot.start.getTime() - b.slot.start.getTime()));
+
+      // Offer distinct options: never two overlapping slots
+      const chosen: typeof ranked = [];
+      for (const candidate of ranked) {
+        if (chosen.length >= maxResults) break;
+        if (chosen.some(other => candidate.slot.start < other.slot.end && candidate.slot.end > other.slot.start)) continue;
+        chosen.push(candidate);
+      }
+
+      const slots = chosen.map(({ slot, bufferMinutes }) => ({
+        start: slot.start.toISOString(),
+        end: slot.end.toISOString(),
+        local: formatRangeInTimeZone(slot.start, slot.end, timeZone),
+        bufferMinutes
+      }));
+
+      let message = slots.length > 0
+        ? `Found ${slots.length} slot(s) when you and ${checkedAttendees.length} attendee(s) are free`
+        : `No common free slot of ${duration} minutes in this range and working hours`;
+      if (unavailableAttendees.length > 0) {
+        message += `. Could not check ${unavailableAttendees.map(entry => `${entry.email} (${entry.reason})`).join(', ')}; ` +
+          `these slots do not take them into account, so confirm with them directly`;
+      }
+
+      return { slots, checkedAttendees, unavailableAttendees, message };
     } catch (error: any) {
-      console.error('Failed to find available slots:', error.response?.data || error.message || error);
+      console.error('Failed to find meeting times:', error.response?.data || error.message || error);
       const errorMessage = error instanceof Error ? error.message : String(error);
       if (errorMessage.includes("Authentication required")) throw error;
       const googleError = error.response?.data?.error?.message || errorMessage;
-      throw new Error(`Failed to find available slots: ${googleError}`);
+      throw new Error(`Failed to find meeting times: ${googleError}`);
     }
   }
-}); 
\ No newline at end of file
+});
+
+const MAX_INVITATION_SCAN = 500;
+
+// Events someone else organizes that the user hasn't answered yet
+function awaitsResponse(event: calendar_v3.Schema$Event): boolean {
+  if (event.organizer?.self) return false;
+  return !!event.attendees?.some(attendee => attendee.self && (attendee.responseStatus || 'needsAction') === 'needsAction');
+}
+
+export const listPendingInvitationsTool = createTool({
+  id: "list-pending-invitations",
+  description: "List calendar invitations the user has not answered yet. A recurring invitation is listed once, by its next occurrence.",
+  inputSchema: z.object({
+    timeMin: z.string().optional().describe("Start time in ISO format (RFC3339). Defaults to current time"),
+    timeMax: z.string().optional().describe("End time in ISO format (RFC3339). Defaults to 30 days from now"),
+    maxResults: z.number().min(1).max(50).optional().default(20).describe("Maximum number of invitations to return"),
+    calendar: calendarSchema,
+    account: accountSchema
+  }),
+  outputSchema: z.array(eventSchema),
+  execute: async ({ context, resourceId }) => {
+    const {
+      timeMin: rawTimeMin,
+      timeMax: rawTimeMax,
+      maxResults = 20,
+      calendar: calendarName,
+      account
+    } = context;
+
+    const userId = resolveUserId(resourceId);
+
+    const timeMin = ensureRFC3339(rawTimeMin) || new Date().toISOString();
+    const timeMax = ensureRFC3339(rawTimeMax) || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString();
+
+    try {
+      const calendar = await getCalendarService(userId, account, 'calendar.read');
+      if (!calendar) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      const calendarId = await resolveCalendarId(calendar, await calendarCacheKey(userId, account), calendarName);
+      const pending: calendar_v3.Schema$Event[] = [];
+      const seenSeries: Set<string> = new Set();
+      let scanned = 0;
+      let pageToken: string | undefined;
+      do {
+        const response = await calendar.events.list({
+          calendarId,
+          timeMin,
+          timeMax,
+          singleEvents: true,
+          orderBy: 'startTime',
+          maxResults: 250,
+          pageToken
+        });
+        const items = response.data.items || [];
+        scanned += items.length;
+        for (const event of items) {
+          if (pending.length >= maxResults) break;
+          if (!awaitsResponse(event)) continue;
+          if (event.recurringEventId) {
+            if (seenSeries.has(event.recurringEventId)) continue;
+            seenSeries.add(event.recurringEventId);
+          }
+          pending.push(event);
+        }
+        pageToken = response.data.nextPageToken ?? undefined;
+      } while (pageToken && pending.length < maxResults && scanned < MAX_INVITATION_SCAN);
+
+      const seriesRecurrence = await seriesRecurrenceOf(calendar, calendarId, pending);
+      const timeZone = await getUserTimeZone(userId);
+      return pending.map(event => formatEvent(event, seriesRecurrence, timeZone));
+    } catch (error: any) {
+      console.error('Failed to list pending invitations:', error.response?.data || error.message || error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      const googleError = error.response?.data?.error?.message || errorMessage;
+      throw new Error(`Failed to list pending invitations: ${googleError}`);
+    }
+  },
+});
+
+// Where to send a time proposal: the organizer, unless the event belongs to a group
+// calendar (which can't read email), in which case the person who created it
+function proposalRecipientOf(event: calendar_v3.Schema$Event): string | undefined {
+  const organizer = event.organizer?.email;
+  if (organizer && !organizer.endsWith('calendar.google.com')) return organizer;
+  return event.creator?.email ?? undefined;
+}
+
+export const respondToInvitationTool = createTool({
+  id: "respond-to-invitation",
+  description: "Accept, decline or tentatively accept a calendar invitation, with an optional comment for the organizer. Can also email the organizer to propose a different time.",
+  inputSchema: z.object({
+    eventId: z.string().describe("ID of the event; for recurring events the ID of the occurrence from listCalendarEventsTool or listPendingInvitationsTool"),
+    response: z.enum(['accepted', 'declined', 'tentative']).describe("The user's answer"),
+    comment: z.string().optional().describe("Note shown to the organizer with the answer"),
+    scope: z.enum(['instance', 'all']).optional().default('instance').describe(
+      "For recurring events: 'instance' answers only this occurrence, 'all' the whole series. Ignored for single events"
+    ),
+    proposedStart: z.string().optional().describe("Start of a different time to propose to the organizer (RFC3339 format)"),
+    proposedEnd: z.string().optional().describe("End of the proposed time (RFC3339 format). Defaults to the event's length"),
+    notifyOrganizer: z.boolean().optional().default(true).describe("Whether Google notifies the organizer of the answer"),
+    calendar: calendarSchema,
+    account: accountSchema
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    eventId: z.string().optional(),
+    response: z.string().optional(),
+    proposalSentTo: z.string().optional(),
+    message: z.string()
+  }),
+  execute: async ({ context, resourceId }) => {
+    const {
+      eventId,
+      response,
+      comment,
+      scope = 'instance',
+      proposedStart: rawProposedStart,
+      proposedEnd: rawProposedEnd,
+      notifyOrganizer = true,
+      calendar: calendarName,
+      account
+    } = context;
+
+    const userId = resolveUserId(resourceId);
+
+    const proposedStart = ensureRFC3339(rawProposedStart);
+    if (rawProposedStart && !proposedStart) {
+        return { success: false, message: "Invalid proposed start time format. Use full ISO 8601 format with timezone." };
+    }
+
+    try {
+      const calendar = await getCalendarService(userId, account, 'calendar.write');
+      if (!calendar) {
+          throw new Error("Google Authentication required. Please use /connect_google.");
+      }
+
+      const calendarId = await resolveCalendarId(calendar, await calendarCacheKey(userId, account), calendarName);
+      const event = (await calendar.events.get({ calendarId, eventId })).data;
+      if (event.organizer?.self) {
+          return { success: false, message: "The user organizes this event, so there is no invitation to answer" };
+      }
+      const self = event.attendees?.find(attendee => attendee.self);
+      if (!self?.email) {
+          return { success: false, message: "The user is not on this event's guest list, so there is no invitation to answer" };
+      }
+
+      let proposedEnd: string | undefined;
+      if (proposedStart) {
+        proposedEnd = ensureRFC3339(rawProposedEnd) ||
+          new Date(new Date(proposedStart).getTime() + eventTimeMs(event.end) - eventTimeMs(event.start)).toISOString();
+        if (new Date(proposedEnd) <= new Date(proposedStart)) {
+            return { success: false, message: "The proposed end must be after the proposed start" };
+        }
+      }
+
+      const targetId = scope === 'all' && event.recurringEventId ? event.recurringEventId : eventId;
+      // With attendeesOmitted only the user's own entry is sent, so the rest of the guest list is untouched
+      await calendar.events.patch({
+        calendarId,
+        eventId: targetId,
+        sendUpdates: notifyOrganizer ? 'all' : 'none',
+        requestBody: {
+          attendeesOmitted: true,
+          attendees: [{ email: self.email, responseStatus: response, ...(comment !== undefined ? { comment } : {}) }]
+        }
+      });
+      const answered = `${response === 'tentative' ? 'Tentatively accepted' : response === 'accepted' ? 'Accepted' : 'Declined'} ` +
+        `${targetId !== eventId ? 'all occurrences of ' : ''}"${event.summary || '(No Title)'}"`;
+
+      if (!proposedStart || !proposedEnd) {
+        return { success: true, eventId: targetId, response, message: answered };
+      }
+
+      // Calendar's API has no "propose a new time", so the proposal goes to the organizer by email
+      const recipient = proposalRecipientOf(event);
+      if (!recipient) {
+          return { success: true, eventId: targetId, response, message: `${answered}, but the organizer's email address is unknown, so no new time was proposed` };
+      }
+      try {
+        const gmail = await getGmailService(userId, account, 'gmail.send');
+        if (!gmail) {
+            throw new Error("Google Authentication required. Please use /connect_google.");
+        }
+        const timeZone = await getUserTimeZone(userId);
+        const currentTime = event.start?.dateTime && event.end?.dateTime
+          ? formatRangeInTimeZone(new Date(event.start.dateTime), new Date(event.end.dateTime), timeZone)
+          : `${event.start?.date} (all day)`;
+        const body = [
+          `I'd like to propose a different time for "${event.summary || '(No Title)'}".`,
+          '',
+          `Current time: ${currentTime} (${timeZone})`,
+          `Proposed time: ${formatRangeInTimeZone(new Date(proposedStart), new Date(proposedEnd), timeZone)} (${timeZone})`,
+          ...(comment ? ['', comment] : [])
+        ].join('\n');
+        await gmail.users.messages.send({
+          userId: 'me',
+          requestBody: { raw: composeEmail({ to: recipient, subject: `New time proposed: ${event.summary || '(No Title)'}`, body }) }
+        });
+      } catch (proposalError) {
+        console.error('Failed to send time proposal:', proposalError);
+        const proposalMessage = proposalError instanceof Error ? proposalError.message : String(proposalError);
+        return { success: true, eventId: targetId, response, message: `${answered}, but the new time could not be proposed: ${proposalMessage}` };
+      }
+      return {
+        success: true,
+        eventId: targetId,
+        response,
+        proposalSentTo: recipient,
+        message: `${answered} and proposed a new time to ${recipient}`
+      };
+    } catch (error: any) {
+      console.error('Failed to respond to invitation:', error.response?.data || error.message || error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("Authentication required")) throw error;
+      const googleError = error.response?.data?.error?.message || errorMessage;
+      return { success: false, message: `Failed to respond to invitation: ${googleError}` };
+    }
+  },
+});
@@ -0,0 +1,91 @@
+// Per-account cache of Gmail labels, used to turn the label names the agent works
+// with into the IDs the Gmail API expects (e.g. "Clients/Acme" -> "Label_123").
+import { gmail_v1 } from "googleapis";
+import { getLinkedAccount } from "../integrations/googleAuth";
+
+const LABEL_CACHE_TTL_MS = 10 * 60 * 1000;
+
+interface CachedLabels {
+  labels: gmail_v1.Schema$Label[];
+  fetchedAt: number;
+}
+
+const labelCache: Map<string, CachedLabels> = new Map();
+
+// One cache entry per linked Google account, so two accounts with a "Clients" label never mix
+export async function labelCacheKey(userId: string, account?: string): Promise<string> {
+  const linked = await getLinkedAccount(userId, account);
+  return `${userId}:${linked?.email || linked?.alias || account || ''}`;
+}
+
+export function invalidateLabels(cacheKey: string) {
+  labelCache.delete(cacheKey);
+}
+
+export async function getLabels(gmail: gmail_v1.Gmail, cacheKey: string, refresh = false): Promise<gmail_v1.Schema$Label[]> {
+  const cached = labelCache.get(cacheKey);
+  if (cached && !refresh && Date.now() - cached.fetchedAt < LABEL_CACHE_TTL_MS) {
+    return cached.labels;
+  }
+  const response = await gmail.users.labels.list({ userId: 'me' });
+  const labels = response.data.labels || [];
+  labelCache.set(cacheKey, { labels, fetchedAt: Date.now() });
+  return labels;
+}
+
+// Match on ID first (system labels such as INBOX or STARRED), then on name, ignoring case
+function matchLabel(labels: gmail_v1.Schema$Label[], nameOrId: string): gmail_v1.Schema$Label | undefined {
+  const wanted = nameOrId.trim().toLowerCase();
+  return labels.find(label => label.id?.toLowerCase() === wanted) ||
+    labels.find(label => label.name?.toLowerCase() === wanted);
+}
+
+export async function findLabel(gmail: gmail_v1.Gmail, cacheKey: string, nameOrId: string): Promise<gmail_v1.Schema$Label | undefined> {
+  const label = matchLabel(await getLabels(gmail, cacheKey), nameOrId);
+  if (label) return label;
+  // The label may have been created in Gmail since the cache was filled
+  return matchLabel(await getLabels(gmail, cacheKey, true), nameOrId);
+}
+
+export async function createLabel(gmail: gmail_v1.Gmail, cacheKey: string, name: string): Promise<gmail_v1.Schema$Label> {
+  const response = await gmail.users.labels.create({
+    userId: 'me',
+    requestBody: {
+      name: name.trim(),
+      labelListVisibility: 'labelShow',
+      messageListVisibility: 'show'
+    }
+  });
+  invalidateLabels(cacheKey);
+  return response.data;
+}
+
+// Resolve label names to IDs, optionally creating user labels that don't exist yet
+export async function resolveLabelIds(
+  gmail: gmail_v1.Gmail,
+  cacheKey: string,
+  names: string[],
+  createMissing = false
+): Promise<{ ids: string[]; created: string[] }> {
+  const ids: string[] = [];
+  const created: string[] = [];
+  const missing: string[] = [];
+
+  for (const name of names) {
+    const label = await findLabel(gmail, cacheKey, name);
+    if (label?.id) {
+      ids.push(label.id);
+    } else if (createMissing) {
+      const newLabel = await createLabel(gmail, cacheKey, name);
+      if (newLabel.id) ids.push(newLabel.id);
+      created.push(name);
+    } else {
+      missing.push(name);
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new Error(`Unknown label(s): ${missing.join(', ')}. Use listLabelsTool to see existing labels or create them first.`);
+  }
+  return { ids, created };
+}
@@ -0,0 +1,88 @@
+// Reading mailing-list headers (RFC 2369 List-Unsubscribe, RFC 2919 List-Id) and
+// performing one-click unsubscribes (RFC 8058)
+import * as net from "net";
+
+const ONE_CLICK_TIMEOUT_MS = 10 * 1000;
+
+export interface UnsubscribeMailto {
+  address: string;
+  subject: string;
+  body: string;
+}
+
+// The ways a sender offers to unsubscribe, best first
+export interface UnsubscribeOptions {
+  oneClickUrl?: string;
+  mailto?: UnsubscribeMailto;
+  webUrl?: string;
+}
+
+export type UnsubscribeMethod = 'one-click' | 'email' | 'link' | 'none';
+
+// "<mailto:leave@example.com?subject=unsubscribe>, <https://example.com/u/123>"
+export function parseListUnsubscribe(header?: string, postHeader?: string): UnsubscribeOptions {
+  const options: UnsubscribeOptions = {};
+  // One-click only applies when the sender also declares List-Unsubscribe-Post
+  const oneClick = /List-Unsubscribe=One-Click/i.test(postHeader || '');
+
+  for (const [, target] of (header || '').matchAll(/<([^>]+)>/g)) {
+    const value = target.trim();
+    if (/^mailto:/i.test(value) && !options.mailto) {
+      const [address, params = ''] = value.slice('mailto:'.length).split('?');
+      const search = new URLSearchParams(params);
+      options.mailto = {
+        address: decodeURIComponent(address),
+        subject: search.get('subject') || 'unsubscribe',
+        body: search.get('body') || 'unsubscribe'
+      };
+    } else if (/^https:/i.test(value)) {
+      if (oneClick && !options.oneClickUrl) options.oneClickUrl = value;
+      else if (!options.webUrl) options.webUrl = value;
+    } else if (/^http:/i.test(value) && !options.webUrl) {
+      options.webUrl = value;
+    }
+  }
+  return options;
+}
+
+export function unsubscribeMethodOf(options: UnsubscribeOptions): UnsubscribeMethod {
+  if (options.oneClickUrl) return 'one-click';
+  if (options.mailto) return 'email';
+  if (options.webUrl) return 'link';
+  return 'none';
+}
+
+// "Example News <news.example.com>" -> "news.example.com"
+export function listIdOf(header?: string): string | undefined {
+  if (!header) return undefined;
+  const match = header.match(/<([^>]+)>/);
+  return (match ? match[1] : header).trim().toLowerCase() || undefined;
+}
+
+// The URL comes from an email header, so only public HTTPS hosts are contacted
+function assertPublicHttpsUrl(url: string): URL {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'https:') {
+    throw new Error('One-click unsubscribe needs an HTTPS link');
+  }
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || net.isIP(host) !== 0) {
+    throw new Error(`Refusing to contact ${parsed.hostname} for an unsubscribe request`);
+  }
+  return parsed;
+}
+
+// RFC 8058: a POST with the fixed body "List-Unsubscribe=One-Click", without cookies or redirects
+export async function oneClickUnsubscribe(url: string): Promise<void> {
+  const target = assertPublicHttpsUrl(url);
+  const response = await fetch(target, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: 'List-Unsubscribe=One-Click',
+    redirect: 'manual',
+    signal: AbortSignal.timeout(ONE_CLICK_TIMEOUT_MS)
+  });
+  if (response.status >= 400) {
+    throw new Error(`The sender's unsubscribe server answered ${response.status} ${response.statusText}`);
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encodeHeaderValue, buildMimeMessage, splitAddressList } from "./mimeComposer";
+
+// Decode RFC 2047 'B' encoded words back to text
+function decodeEncodedWords(value: string): string {
+  return value
+    .split(/\r\n /)
+    .map(word => {
+      const match = word.match(/^=\?UTF-8\?B\?([^?]*)\?=$/);
+      assert.ok(match, `not an encoded word: ${word}`);
+      return Buffer.from(match[1], 'base64');
+    })
+    .reduce((text, bytes) => text + bytes.toString('utf-8'), '');
+}
+
+describe('encodeHeaderValue', () => {
+  it('leaves ASCII alone', () => {
+    assert.equal(encodeHeaderValue('Quarterly report'), 'Quarterly report');
+  });
+
+  it('encodes non-ASCII text in words of at most 75 characters', () => {
+    const subject = 'Grüße aus München – Überblick über die nächsten Schritte 🚀 und Termine';
+    const encoded = encodeHeaderValue(subject);
+    for (const word of encoded.split('\r\n ')) {
+      assert.ok(word.length <= 75, `encoded word too long: ${word.length}`);
+    }
+    assert.equal(decodeEncodedWords(encoded), subject);
+  });
+
+  it('never splits a character between words', () => {
+    const encoded = encodeHeaderValue('😀'.repeat(30));
+    assert.equal(decodeEncodedWords(encoded), '😀'.repeat(30));
+  });
+});
+
+describe('splitAddressList', () => {
+  it('ignores commas inside quotes and angle brackets', () => {
+    assert.deepEqual(
+      splitAddressList('"Doe, Jane" <jane@example.com>, bob@example.com; <a,b@example.com>'),
+      ['"Doe, Jane" <jane@example.com>', 'bob@example.com', '<a,b@example.com>']
+    );
+  });
+
+  it('unfolds line breaks in a received header', () => {
+    assert.deepEqual(splitAddressList('Ana <ana@example.com>,\r\n bob@example.com'), ['Ana <ana@example.com>', 'bob@example.com']);
+    assert.deepEqual(splitAddressList('a@x.com\r\nBcc: attacker@y.com'), ['a@x.com Bcc: attacker@y.com']);
+  });
+});
+
+describe('buildMimeMessage', () => {
+  it('encodes non-ASCII display names but not the addresses', () => {
+    const message = buildMimeMessage({ to: 'Jürgen Groß <juergen@example.com>', subject: 'Hi', body: 'Hello' });
+    const to = message.split('\r\n').find(line => line.startsWith('To: '))!;
+    assert.match(to, /^To: =\?UTF-8\?B\?[^?]+\?= <juergen@example\.com>$/);
+  });
+
+  it('rejects recipients that would add header lines', () => {
+    for (const field of ['to', 'cc', 'bcc'] as const) {
+      assert.throws(
+        () => buildMimeMessage({ to: 'a@example.com', [field]: 'a@x.com\r\nBcc: attacker@y.com', subject: 'Hi', body: 'Hello' }),
+        /line breaks/
+      );
+    }
+    assert.throws(() => buildMimeMessage({ to: 'Ana <ana@x.com\nBcc: attacker@y.com>', subject: 'Hi', body: 'Hello' }), /line breaks/);
+  });
+
+  it('keeps threading headers on one line', () => {
+    const message = buildMimeMessage({ to: 'a@example.com', subject: 'Re: Hi', body: 'Hello', references: '<a@x>\r\nBcc: attacker@y.com' });
+    assert.ok(!message.split('\r\n').some(line => line.startsWith('Bcc:')));
+  });
+
+  it('gives non-ASCII attachment names as RFC 2231 parameters with an RFC 2047 fallback', () => {
+    const message = buildMimeMessage({
+      to: 'a@example.com',
+      subject: 'Files',
+      body: 'See attached',
+      attachments: [{ filename: 'Prüfbericht (final).pdf', mimeType: 'application/pdf', data: Buffer.from('%PDF') }]
+    });
+    const disposition = message.split('\r\n').find(line => line.startsWith('Content-Disposition: attachment'))!;
+    assert.ok(disposition.includes(`filename*=UTF-8''Pr%C3%BCfbericht%20%28final%29.pdf`), disposition);
+    assert.match(disposition, /filename="=\?UTF-8\?B\?/);
+  });
+
+  it('quotes ASCII attachment names without extended parameters', () => {
+    const message = buildMimeMessage({
+      to: 'a@example.com',
+      subject: 'Files',
+      body: 'See attached',
+      attachments: [{ filename: 'report.pdf', mimeType: 'application/pdf', data: Buffer.from('%PDF') }]
+    });
+    assert.ok(message.includes('Content-Disposition: attachment; filename="report.pdf"\r\n'));
+  });
+});
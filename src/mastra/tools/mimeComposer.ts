@@ -0,0 +1,233 @@
+// MIME composer for outgoing Gmail messages (RFC 5322 / 2045-2047 / 2231)
+import * as crypto from 'crypto';
+
+export interface MimeAttachment {
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+export interface ComposeEmailOptions {
+  to: string;
+  cc?: string;
+  bcc?: string;
+  subject: string;
+  // HTML or plain text; a plain-text alternative is generated for HTML bodies
+  body: string;
+  // Threading headers so replies and forwards stay in the original conversation
+  inReplyTo?: string;
+  references?: string;
+  attachments?: MimeAttachment[];
+}
+
+const CRLF = '\r\n';
+// Encoded words may be at most 75 characters; 45 bytes of UTF-8 stay under that in base64
+const MAX_ENCODED_WORD_BYTES = 45;
+
+function isAscii(value: string): boolean {
+  return /^[\x20-\x7e]*$/.test(value);
+}
+
+function newBoundary(kind: string): string {
+  return `${kind}_${crypto.randomBytes(12).toString('hex')}`;
+}
+
+// RFC 2047 'B' encoding, split into several encoded words without breaking UTF-8 characters
+export function encodeHeaderValue(value: string): string {
+  if (isAscii(value)) return value;
+
+  const words: string[] = [];
+  let chunk = '';
+  for (const char of value) {
+    if (Buffer.byteLength(chunk + char, 'utf-8') > MAX_ENCODED_WORD_BYTES) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+
+  return words
+    .map(word => `=?UTF-8?B?${Buffer.from(word, 'utf-8').toString('base64')}?=`)
+    .join(`${CRLF} `);
+}
+
+// Split an address header on commas that are not inside quotes or angle brackets.
+// Line breaks are folding whitespace in a received header and are unfolded.
+export function splitAddressList(value?: string): string[] {
+  if (!value) return [];
+  const addresses: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let inAngle = false;
+  for (const char of value.replace(/\s*[\r\n]+\s*/g, ' ')) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === '<' && !inQuotes) inAngle = true;
+    if (char === '>' && !inQuotes) inAngle = false;
+    if ((char === ',' || char === ';') && !inQuotes && !inAngle) {
+      if (current.trim()) addresses.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) addresses.push(current.trim());
+  return addresses;
+}
+
+export function emailAddressOf(address: string): string {
+  const match = address.match(/<([^>]+)>/);
+  return (match ? match[1] : address).trim().toLowerCase();
+}
+
+// A line break in a recipient list would start a new header (e.g. an extra Bcc), so
+// addresses taken from model input are rejected rather than repaired
+function assertNoLineBreaks(header: string, value: string) {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`${header} addresses must not contain line breaks`);
+  }
+}
+
+// Encode the display names of an address list, leaving the addresses themselves as-is
+function encodeAddressList(value: string): string {
+  return splitAddressList(value)
+    .map(address => {
+      const match = address.match(/^\s*'?(.*?)'?\s*<([^>]+)>\s*$/);
+      if (!match || !match[1]) return address;
+      const [, name, email] = match;
+      return isAscii(name)
+        ? `"${name.replace(/"/g, '')}" <${email}>`
+        : `${encodeHeaderValue(name)} <${email}>`;
+    })
+    .join(`,${CRLF} `);
+}
+
+// RFC 2231 filename parameter, with an RFC 2047 fallback for older clients
+function filenameParameters(parameter: 'name' | 'filename', filename: string): string {
+  const safe = filename.replace(/[\r\n"]/g, '');
+  if (isAscii(safe)) return `${parameter}="${safe}"`;
+  const extended = encodeURIComponent(safe).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${parameter}="${encodeHeaderValue(safe)}"; ${parameter}*=UTF-8''${extended}`;
+}
+
+function base64Lines(data: Buffer): string[] {
+  return data.toString('base64').match(/.{1,76}/g) || [];
+}
+
+function textPart(mimeType: 'text/plain' | 'text/html', content: string): string[] {
+  return [
+    `Content-Type: ${mimeType}; charset=UTF-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...base64Lines(Buffer.from(content, 'utf-8')),
+  ];
+}
+
+function looksLikeHtml(body: string): boolean {
+  return /<\/?[a-z][a-z0-9]*(\s[^>]*)?>/i.test(body);
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+const NAMED_ENTITIES: { [name: string]: string } = {
+  nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", hellip: '…', mdash: '—', ndash: '–', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“', copy: '©', reg: '®',
+};
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+// Readable plain-text rendering of an HTML body
+export function htmlToText(html: string): string {
+  return decodeHtmlEntities(
+    html
+      .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li[^>]*>/gi, '\n- ')
+      .replace(/<\/(p|div|h[1-6]|tr|table|ul|ol|blockquote)>/gi, '\n\n')
+      .replace(/<a\s[^>]*href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, text: string) => {
+        const label = text.replace(/<[^>]+>/g, '').trim();
+        return !label || label === href ? href : `${label} (${href})`;
+      })
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Build the RFC 5322 message text
+export function buildMimeMessage({
+  to,
+  cc,
+  bcc,
+  subject,
+  body,
+  inReplyTo,
+  references,
+  attachments = [],
+}: ComposeEmailOptions): string {
+  assertNoLineBreaks('To', to);
+  if (cc) assertNoLineBreaks('Cc', cc);
+  if (bcc) assertNoLineBreaks('Bcc', bcc);
+  // Threading headers are copied from the original message
+  inReplyTo = inReplyTo?.replace(/[\r\n]+/g, ' ');
+  references = references?.replace(/[\r\n]+/g, ' ');
+
+  const html = looksLikeHtml(body) ? body : escapeHtml(body).replace(/\r?\n/g, '<br>');
+  const text = looksLikeHtml(body) ? htmlToText(body) : body;
+
+  const headers = [
+    `To: ${encodeAddressList(to)}`,
+    ...(cc ? [`Cc: ${encodeAddressList(cc)}`] : []),
+    // Gmail removes Bcc from the delivered message but uses it for delivery
+    ...(bcc ? [`Bcc: ${encodeAddressList(bcc)}`] : []),
+    `Subject: ${encodeHeaderValue(subject)}`,
+    ...(inReplyTo ? [`In-Reply-To: ${inReplyTo}`] : []),
+    ...(references ? [`References: ${references}`] : []),
+    'MIME-Version: 1.0',
+  ];
+
+  const alternativeBoundary = newBoundary('alt');
+  const alternative = [
+    `Content-Type: multipart/alternative; boundary="${alternativeBoundary}"`,
+    '',
+    `--${alternativeBoundary}`,
+    ...textPart('text/plain', text),
+    `--${alternativeBoundary}`,
+    ...textPart('text/html', html),
+    `--${alternativeBoundary}--`,
+  ];
+
+  if (attachments.length === 0) {
+    return [...headers, ...alternative].join(CRLF);
+  }
+
+  const mixedBoundary = newBoundary('mixed');
+  const lines = [...headers, `Content-Type: multipart/mixed; boundary="${mixedBoundary}"`, '', `--${mixedBoundary}`, ...alternative];
+  for (const attachment of attachments) {
+    lines.push(
+      `--${mixedBoundary}`,
+      `Content-Type: ${attachment.mimeType || 'application/octet-stream'}; ${filenameParameters('name', attachment.filename)}`,
+      `Content-Disposition: attachment; ${filenameParameters('filename', attachment.filename)}`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      ...base64Lines(attachment.data)
+    );
+  }
+  lines.push(`--${mixedBoundary}--`);
+  return lines.join(CRLF);
+}
+
+// Compose a message and encode it as the base64url 'raw' value the Gmail API expects
+export function composeEmail(options: ComposeEmailOptions): string {
+  return Buffer.from(buildMimeMessage(options), 'utf-8').toString('base64url');
+}
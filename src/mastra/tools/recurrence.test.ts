@@ -0,0 +1,87 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildRecurrence, describeRecurrence, recurrenceCount, endRecurrenceBefore, continueRecurrence } from "./recurrence";
+
+describe('buildRecurrence', () => {
+  const start = new Date('2026-11-02T14:00:00Z'); // 09:00 in New York
+
+  it('writes the rule parts in RRULE form', () => {
+    assert.deepEqual(
+      buildRecurrence({ frequency: 'weekly', interval: 2, byDay: ['MO', 'WE'], count: 6 }, start, false, 'America/New_York'),
+      ['RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=6']
+    );
+  });
+
+  it("ends a timed series at the end of the until date in the event's zone", () => {
+    // 23:59:59 on Nov 10 in New York is 04:59:59Z on Nov 11
+    assert.deepEqual(
+      buildRecurrence({ frequency: 'daily', until: '2026-11-10' }, start, false, 'America/New_York'),
+      ['RRULE:FREQ=DAILY;UNTIL=20261111T045959Z']
+    );
+    assert.deepEqual(
+      buildRecurrence({ frequency: 'daily', until: '2026-11-10' }, start, false, 'Asia/Tokyo'),
+      ['RRULE:FREQ=DAILY;UNTIL=20261110T145959Z']
+    );
+  });
+
+  it('keeps UNTIL a date for all-day events', () => {
+    assert.deepEqual(
+      buildRecurrence({ frequency: 'yearly', until: '2030-01-01' }, start, true, 'America/New_York'),
+      ['RRULE:FREQ=YEARLY;UNTIL=20300101']
+    );
+  });
+
+  it('names the local start time of each exception', () => {
+    assert.deepEqual(
+      buildRecurrence({ frequency: 'daily', exceptions: ['2026-11-05', '2026-11-06'] }, start, false, 'America/New_York'),
+      ['RRULE:FREQ=DAILY', 'EXDATE;TZID=America/New_York:20261105T090000,20261106T090000']
+    );
+    assert.deepEqual(
+      buildRecurrence({ frequency: 'daily', exceptions: ['2026-11-05'] }, start, true, 'America/New_York'),
+      ['RRULE:FREQ=DAILY', 'EXDATE;VALUE=DATE:20261105']
+    );
+  });
+
+  it('rejects until and count together', () => {
+    assert.throws(() => buildRecurrence({ frequency: 'daily', until: '2026-11-10', count: 3 }, start, false, 'UTC'));
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('reads a rule back as text', () => {
+    assert.equal(
+      describeRecurrence(['RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20261231T235959Z', 'EXDATE;VALUE=DATE:20261105']),
+      'Every 2 weeks on Mon, Wed until 2026-12-31, except 1 date'
+    );
+    assert.equal(describeRecurrence(['RRULE:FREQ=MONTHLY;COUNT=3']), 'Every month, 3 times');
+  });
+
+  it("shows a timed series' last date in the event's zone", () => {
+    const lines = buildRecurrence({ frequency: 'daily', until: '2026-12-31' }, new Date('2026-11-02T14:00:00Z'), false, 'America/New_York');
+    assert.deepEqual(lines, ['RRULE:FREQ=DAILY;UNTIL=20270101T045959Z']);
+    assert.equal(describeRecurrence(lines, 'America/New_York'), 'Every day until 2026-12-31');
+    assert.equal(describeRecurrence(['RRULE:FREQ=DAILY;UNTIL=20261231'], 'America/New_York'), 'Every day until 2026-12-31');
+  });
+});
+
+describe('splitting a series', () => {
+  const lines = ['RRULE:FREQ=DAILY;COUNT=10', 'EXDATE;VALUE=DATE:20261105'];
+
+  it('ends the original just before the occurrence', () => {
+    assert.deepEqual(
+      endRecurrenceBefore(lines, new Date('2026-11-06T14:00:00Z'), false),
+      ['RRULE:FREQ=DAILY;UNTIL=20261106T135959Z', 'EXDATE;VALUE=DATE:20261105']
+    );
+    assert.deepEqual(
+      endRecurrenceBefore(['RRULE:FREQ=DAILY'], new Date('2026-11-06'), true),
+      ['RRULE:FREQ=DAILY;UNTIL=20261105']
+    );
+  });
+
+  it('continues with the occurrences left of a COUNT', () => {
+    assert.equal(recurrenceCount(lines), 10);
+    assert.deepEqual(continueRecurrence(lines, 4), ['RRULE:FREQ=DAILY;COUNT=4', 'EXDATE;VALUE=DATE:20261105']);
+    assert.throws(() => continueRecurrence(lines, 0));
+    assert.deepEqual(continueRecurrence(['RRULE:FREQ=DAILY']), ['RRULE:FREQ=DAILY']);
+  });
+});
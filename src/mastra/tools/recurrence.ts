@@ -0,0 +1,144 @@
+// Building and reading RRULE recurrence (RFC 5545) for Google Calendar events
+import { z } from "zod";
+import { zonedParts, zonedTimeToUtc } from "../integrations/userTimeZone";
+
+const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+const WEEKDAY_NAMES: { [day: string]: string } = {
+  MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun'
+};
+
+export const recurrenceSchema = z.object({
+  frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']).describe("How often the event repeats"),
+  interval: z.number().int().min(1).optional().describe("Repeat every N days/weeks/months/years. Defaults to 1"),
+  byDay: z.array(z.enum(WEEKDAYS)).optional().describe("Weekdays for weekly events, e.g. ['MO', 'WE']"),
+  until: z.string().optional().describe("Last date of the series (YYYY-MM-DD)"),
+  count: z.number().int().min(1).optional().describe("Number of occurrences, instead of until"),
+  exceptions: z.array(z.string()).optional().describe("Dates (YYYY-MM-DD) on which the event does not take place")
+});
+
+export type RecurrenceInput = z.infer<typeof recurrenceSchema>;
+
+// "2026-11-10" -> "20261110"
+function compactDate(date: string): string {
+  const match = date.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) throw new Error(`Invalid date: ${date}. Use YYYY-MM-DD.`);
+  return `${match[1]}${match[2]}${match[3]}`;
+}
+
+// The last second of a date (YYYY-MM-DD) in a time zone
+function endOfDayIn(date: string, timeZone: string): Date {
+  const compact = compactDate(date);
+  const day = { year: Number(compact.slice(0, 4)), month: Number(compact.slice(4, 6)), day: Number(compact.slice(6, 8)) };
+  return new Date(zonedTimeToUtc(day, 23, 59, timeZone).getTime() + 59 * 1000);
+}
+
+// Wall-clock date and time of an instant in a time zone, e.g. { date: "20261110", time: "090000" }
+function localDateTime(instant: Date, timeZone: string): { date: string; time: string } {
+  const parts = zonedParts(instant, timeZone);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return {
+    date: `${pad(parts.year, 4)}${pad(parts.month)}${pad(parts.day)}`,
+    time: `${pad(parts.hour)}${pad(parts.minute)}${pad(parts.second)}`
+  };
+}
+
+function utcStamp(instant: Date): string {
+  return instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// The RRULE and EXDATE lines for an event starting at `start`. Timed events repeat
+// in the given time zone, so they keep their local time across daylight saving changes.
+export function buildRecurrence(input: RecurrenceInput, start: Date, allDay: boolean, timeZone: string): string[] {
+  if (input.until && input.count) {
+    throw new Error("Give either until or count for a recurring event, not both");
+  }
+  const parts = [`FREQ=${input.frequency.toUpperCase()}`];
+  if (input.interval && input.interval > 1) parts.push(`INTERVAL=${input.interval}`);
+  if (input.byDay && input.byDay.length > 0) parts.push(`BYDAY=${input.byDay.join(',')}`);
+  if (input.count) parts.push(`COUNT=${input.count}`);
+  // UNTIL is inclusive; timed events need it in UTC, at the end of that day in the event's zone
+  if (input.until) parts.push(`UNTIL=${allDay ? compactDate(input.until) : utcStamp(endOfDayIn(input.until, timeZone))}`);
+
+  const lines = [`RRULE:${parts.join(';')}`];
+  if (input.exceptions && input.exceptions.length > 0) {
+    const dates = input.exceptions.map(compactDate);
+    if (allDay) {
+      lines.push(`EXDATE;VALUE=DATE:${dates.join(',')}`);
+    } else {
+      // An exception has to name the occurrence's exact local start time
+      const { time } = localDateTime(start, timeZone);
+      lines.push(`EXDATE;TZID=${timeZone}:${dates.map(date => `${date}T${time}`).join(',')}`);
+    }
+  }
+  return lines;
+}
+
+function ruleParts(lines: string[]): Map<string, string> {
+  const rule = lines.find(line => line.startsWith('RRULE:'));
+  return new Map((rule ? rule.slice('RRULE:'.length).split(';') : []).map(part => {
+    const [key, value = ''] = part.split('=');
+    return [key.toUpperCase(), value];
+  }));
+}
+
+function replaceRule(lines: string[], parts: Map<string, string>): string[] {
+  const rule = `RRULE:${[...parts].map(([key, value]) => `${key}=${value}`).join(';')}`;
+  return lines.map(line => line.startsWith('RRULE:') ? rule : line);
+}
+
+// "Every 2 weeks on Mon, Wed until 2026-12-31, except 1 date". A timed series' UNTIL is
+// a UTC instant, shown as the date it falls on in the event's time zone.
+export function describeRecurrence(lines: string[], timeZone?: string): string {
+  const parts = ruleParts(lines);
+  const frequency = parts.get('FREQ');
+  if (!frequency) return lines.join('; ');
+
+  const unit = ({ DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' } as { [freq: string]: string })[frequency] || frequency.toLowerCase();
+  const interval = Number(parts.get('INTERVAL') || 1);
+  let text = interval > 1 ? `Every ${interval} ${unit}s` : `Every ${unit}`;
+  const byDay = parts.get('BYDAY');
+  if (byDay) text += ` on ${byDay.split(',').map(day => WEEKDAY_NAMES[day.slice(-2)] ? day.slice(0, -2) + WEEKDAY_NAMES[day.slice(-2)] : day).join(', ')}`;
+  const until = parts.get('UNTIL');
+  if (until) {
+    const utc = until.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+    const date = utc && timeZone
+      ? localDateTime(new Date(`${utc[1]}-${utc[2]}-${utc[3]}T${utc[4]}:${utc[5]}:${utc[6]}Z`), timeZone).date
+      : until;
+    text += ` until ${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`;
+  }
+  const count = parts.get('COUNT');
+  if (count) text += `, ${count} times`;
+  const exceptions = lines
+    .filter(line => line.startsWith('EXDATE'))
+    .reduce((total, line) => total + line.slice(line.indexOf(':') + 1).split(',').length, 0);
+  if (exceptions > 0) text += `, except ${exceptions} date${exceptions > 1 ? 's' : ''}`;
+  return text;
+}
+
+export function recurrenceCount(lines: string[]): number | undefined {
+  const count = ruleParts(lines).get('COUNT');
+  return count ? Number(count) : undefined;
+}
+
+// End a series just before one of its occurrences ("this and following" changes)
+export function endRecurrenceBefore(lines: string[], occurrenceStart: Date, allDay: boolean): string[] {
+  const parts = ruleParts(lines);
+  parts.delete('COUNT');
+  if (allDay) {
+    const dayBefore = new Date(occurrenceStart.getTime() - 24 * 60 * 60 * 1000);
+    parts.set('UNTIL', dayBefore.toISOString().slice(0, 10).replace(/-/g, ''));
+  } else {
+    parts.set('UNTIL', utcStamp(new Date(occurrenceStart.getTime() - 1000)));
+  }
+  return replaceRule(lines, parts);
+}
+
+// The same rule for a series continuing from a split; a COUNT becomes the occurrences left
+export function continueRecurrence(lines: string[], remainingCount?: number): string[] {
+  const parts = ruleParts(lines);
+  if (parts.has('COUNT')) {
+    if (!remainingCount || remainingCount < 1) throw new Error("No occurrences are left from this one on");
+    parts.set('COUNT', String(remainingCount));
+  }
+  return replaceRule(lines, parts);
+}
@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+// The Telegram user a tool acts for is taken from the agent's resourceId,
+// which TelegramIntegration.handleMessage sets from the message sender.
+// It is never part of a tool's input schema, so the model cannot choose it.
+export function resolveUserId(resourceId?: string): string {
+  if (!resourceId) {
+    throw new Error("Authentication error: User ID is required.");
+  }
+  return resourceId;
+}
+
+// Optional input shared by every Google tool: which of the user's own linked
+// accounts to act on. Only aliases the sender linked can ever resolve.
+export const accountSchema = z.string().optional().describe(
+  "Name (alias) or email of the user's linked Google account to use, e.g. 'work' or 'personal'. Omit to use the default account"
+);